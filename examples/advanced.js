@@ -74,17 +74,21 @@ async function advancedExample() {
       }
     ];
 
-    const results = await Promise.all(
-      queries.map(query => client.query(query))
-    );
+    const batch = await client.queryBatch(queries, { concurrency: 2 });
 
-    results.forEach((result, index) => {
-      console.log(`Query ${index + 1}:`);
-      console.log(`  Cache hit: ${result.is_cache_hit}`);
-      console.log(`  Response time: ${result.response_time_ms}ms`);
-      console.log(`  Response: ${result.response.substring(0, 100)}...\n`);
+    batch.results.forEach(result => {
+      console.log(`Query ${result.index + 1}:`);
+      if (result.status !== 'fulfilled') {
+        console.log(`  Failed: ${result.error ? result.error.message : 'skipped'}\n`);
+        return;
+      }
+      console.log(`  Cache hit: ${result.response.is_cache_hit}`);
+      console.log(`  Response time: ${result.response.response_time_ms}ms`);
+      console.log(`  Response: ${result.response.response.substring(0, 100)}...\n`);
     });
 
+    console.log(`Batch totals: ${batch.totals.hits} hits, ${batch.totals.misses} misses, $${batch.totals.estimated_cost.toFixed(4)}\n`);
+
     // 5. Health check
     console.log('5. Checking API health...');
     const health = await client.health();
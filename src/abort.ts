@@ -0,0 +1,62 @@
+/**
+ * AbortSignal helpers for Vectorcache SDK
+ */
+
+import { VectorcacheAbortError } from './errors';
+
+/**
+ * Abort `controller` when `signal` aborts. Returns a function that removes the listener.
+ */
+export function linkAbortSignal(controller: AbortController, signal?: AbortSignal): () => void {
+  if (!signal) {
+    return () => undefined;
+  }
+
+  if (signal.aborted) {
+    controller.abort();
+    return () => undefined;
+  }
+
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Throw a VectorcacheAbortError if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new VectorcacheAbortError();
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with a VectorcacheAbortError as soon as `signal` aborts
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new VectorcacheAbortError());
+      return;
+    }
+
+    const onAbort = () => reject(new VectorcacheAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,283 @@
+/**
+ * Anthropic integration for Vectorcache SDK
+ * Wraps an Anthropic client so Messages API calls are served from the cache when possible
+ */
+
+import { VectorcacheClient } from './client';
+import { VectorcacheAbortError } from './errors';
+import { Message, SemanticQueryRequest, VectorcacheCompletionMetadata } from './types';
+import { MAX_TOKENS_LIMIT } from './validation';
+
+type AnthropicContent = string | Array<{ type: string; text?: string; [key: string]: any }>;
+
+/** Subset of Anthropic's message create params used for caching */
+export interface AnthropicMessageParams {
+  model: string;
+  max_tokens: number;
+  messages: Array<{ role: 'user' | 'assistant'; content: AnthropicContent }>;
+  system?: AnthropicContent;
+  temperature?: number;
+  stream?: boolean;
+  [key: string]: any;
+}
+
+export interface AnthropicMessage {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: Array<{ type: string; text?: string; [key: string]: any }>;
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    [key: string]: any;
+  };
+  /** Added by the Vectorcache wrapper */
+  vectorcache?: VectorcacheCompletionMetadata;
+  [key: string]: any;
+}
+
+/** Server-sent event of a streaming Messages API call */
+export interface AnthropicStreamEvent {
+  type: string;
+  /** Added by the Vectorcache wrapper on the `message_stop` event */
+  vectorcache?: VectorcacheCompletionMetadata;
+  [key: string]: any;
+}
+
+/** Minimal structural type of an Anthropic client */
+export interface AnthropicLike {
+  messages: {
+    create(params: any, options?: any): Promise<any>;
+  };
+}
+
+export interface WrapAnthropicOptions {
+  /** Project to cache messages in (defaults to the client's project) */
+  projectId?: string;
+  /** Return true to send a call straight to Anthropic without touching the cache */
+  bypass?: (params: AnthropicMessageParams) => boolean;
+  /** Called when a cache lookup or store fails; the call itself still goes through */
+  onCacheError?: (error: Error) => void;
+}
+
+/**
+ * Params that are part of the cache key or leave the answer unchanged;
+ * calls that set any other param go straight to Anthropic
+ */
+const CACHED_PARAMS = ['model', 'max_tokens', 'messages', 'system', 'temperature', 'stream', 'metadata'];
+
+/** System block fields that leave the prompt text unchanged */
+const PLAIN_SYSTEM_BLOCK_FIELDS = ['type', 'text', 'cache_control'];
+
+/**
+ * Convert Anthropic message params into a Vectorcache request, or `undefined`
+ * when the call cannot be cached (non-text content, system blocks with citations or similar,
+ * a `max_tokens` above what the API accepts, or any param outside `CACHED_PARAMS`, such as
+ * tools or `stop_sequences`)
+ */
+export function anthropicParamsToRequest(params: AnthropicMessageParams): SemanticQueryRequest | undefined {
+  if (params.max_tokens > MAX_TOKENS_LIMIT ||
+    Object.keys(params).some(name => !CACHED_PARAMS.includes(name) && params[name] !== undefined && params[name] !== null)) {
+    return undefined;
+  }
+
+  const messages: Message[] = [];
+
+  if (params.system !== undefined) {
+    if (Array.isArray(params.system) &&
+      !params.system.every(block => Object.keys(block).every(key => PLAIN_SYSTEM_BLOCK_FIELDS.includes(key)))) {
+      return undefined;
+    }
+    const system = contentToText(params.system);
+    if (system === undefined) {
+      return undefined;
+    }
+    messages.push({ role: 'system', content: system });
+  }
+
+  for (const message of params.messages) {
+    const content = contentToText(message.content);
+    if (content === undefined) {
+      return undefined;
+    }
+    messages.push({ role: message.role, content });
+  }
+
+  return {
+    messages,
+    model: params.model,
+    max_tokens: params.max_tokens,
+    ...(params.temperature !== undefined && { temperature: params.temperature })
+  };
+}
+
+function contentToText(content: AnthropicContent): string | undefined {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  if (Array.isArray(content) && content.every(block => block.type === 'text')) {
+    return content.map(block => block.text || '').join('');
+  }
+
+  return undefined;
+}
+
+function messageId(queryId?: string): string {
+  return `msg_vc_${queryId || Date.now().toString(36)}`;
+}
+
+function hitToMessage(
+  params: AnthropicMessageParams,
+  response: string,
+  metadata: VectorcacheCompletionMetadata
+): AnthropicMessage {
+  return {
+    id: messageId(metadata.query_id),
+    type: 'message',
+    role: 'assistant',
+    model: params.model,
+    content: [{ type: 'text', text: response }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 0, output_tokens: 0 },
+    vectorcache: metadata
+  };
+}
+
+async function* hitToEvents(
+  params: AnthropicMessageParams,
+  response: string,
+  metadata: VectorcacheCompletionMetadata
+): AsyncGenerator<AnthropicStreamEvent> {
+  const message = hitToMessage(params, response, metadata);
+
+  yield {
+    type: 'message_start',
+    message: { ...message, content: [], stop_reason: null, vectorcache: undefined }
+  };
+  yield { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } };
+  yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: response } };
+  yield { type: 'content_block_stop', index: 0 };
+  yield {
+    type: 'message_delta',
+    delta: { stop_reason: 'end_turn', stop_sequence: null },
+    usage: { output_tokens: 0 }
+  };
+  yield { type: 'message_stop', vectorcache: metadata };
+}
+
+/**
+ * Wrap an Anthropic client so `messages.create` checks Vectorcache first
+ *
+ * The top-level `system` prompt becomes a leading system message in the
+ * cache request. Hits and misses both come back in the Messages API shape,
+ * with cache metadata in an extra `vectorcache` field.
+ *
+ * @example
+ * ```typescript
+ * const anthropic = wrapAnthropic(new Anthropic(), vectorcache);
+ * const message = await anthropic.messages.create({ model, max_tokens: 1024, system, messages });
+ * console.log(message.vectorcache?.is_cache_hit);
+ * ```
+ */
+export function wrapAnthropic<T extends AnthropicLike>(
+  anthropic: T,
+  vectorcache: VectorcacheClient,
+  options: WrapAnthropicOptions = {}
+): T {
+  const reportError = (error: unknown) => {
+    options.onCacheError?.(error as Error);
+  };
+
+  const storeMessage = (request: SemanticQueryRequest, response: string, tokensUsed?: number) => {
+    vectorcache
+      .store({ ...request, response, tokens_used: tokensUsed }, { projectId: options.projectId })
+      .catch(reportError);
+  };
+
+  async function* streamMiss(
+    request: SemanticQueryRequest,
+    stream: AsyncIterable<AnthropicStreamEvent>
+  ): AsyncGenerator<AnthropicStreamEvent> {
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let stopReason: string | undefined;
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message?.usage?.input_tokens || 0;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+      } else if (event.type === 'message_delta') {
+        stopReason = event.delta?.stop_reason;
+        outputTokens = event.usage?.output_tokens || outputTokens;
+      }
+
+      yield event.type === 'message_stop' ? { ...event, vectorcache: { is_cache_hit: false } } : event;
+    }
+
+    // Truncated answers (max_tokens) are not cached
+    if (stopReason === 'end_turn') {
+      storeMessage(request, text, inputTokens + outputTokens);
+    }
+  }
+
+  const create = async (params: AnthropicMessageParams, requestOptions?: any) => {
+    const request = options.bypass?.(params) ? undefined : anthropicParamsToRequest(params);
+    if (!request) {
+      return anthropic.messages.create(params, requestOptions);
+    }
+
+    try {
+      const lookup = await vectorcache.lookup(request, {
+        projectId: options.projectId,
+        signal: requestOptions?.signal
+      });
+      if (lookup.is_cache_hit && lookup.response !== undefined) {
+        const metadata: VectorcacheCompletionMetadata = {
+          is_cache_hit: true,
+          similarity_score: lookup.similarity_score,
+          cache_entry_id: lookup.cache_entry_id,
+          query_id: lookup.query_id
+        };
+        return params.stream
+          ? hitToEvents(params, lookup.response, metadata)
+          : hitToMessage(params, lookup.response, metadata);
+      }
+    } catch (error) {
+      if (error instanceof VectorcacheAbortError) {
+        throw error;
+      }
+      reportError(error);
+    }
+
+    const result = await anthropic.messages.create(params, requestOptions);
+
+    if (params.stream) {
+      return streamMiss(request, result);
+    }
+
+    const message = result as AnthropicMessage;
+    const text = contentToText(message.content);
+    if (text !== undefined && message.stop_reason === 'end_turn') {
+      storeMessage(request, text, message.usage.input_tokens + message.usage.output_tokens);
+    }
+
+    return { ...message, vectorcache: { is_cache_hit: false } };
+  };
+
+  const messages = new Proxy(anthropic.messages, {
+    get: (target, property, receiver) =>
+      property === 'create' ? create : Reflect.get(target, property, receiver)
+  });
+
+  return new Proxy(anthropic, {
+    get: (target, property, receiver) =>
+      property === 'messages' ? messages : Reflect.get(target, property, receiver)
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Batch helpers for Vectorcache SDK
+ */
+
+import { BatchItemResult, BatchQueryResponse, BatchTotals, SemanticQueryResponse } from './types';
+
+/**
+ * Run `worker` over every item with at most `concurrency` calls in flight.
+ * Stops starting new items once `shouldStop` returns true.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane);
+  await Promise.all(lanes);
+}
+
+/**
+ * Like runWithConcurrency, but pulls items lazily from an (async) iterable
+ * so large sources are never held in memory
+ */
+export async function runIterableWithConcurrency<T>(
+  items: Iterable<T> | AsyncIterable<T>,
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  const iterator = Symbol.asyncIterator in items
+    ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+    : (items as Iterable<T>)[Symbol.iterator]();
+  let next = 0;
+  let exhausted = false;
+
+  const lane = async () => {
+    while (!exhausted && !shouldStop()) {
+      const index = next++;
+      const { done, value } = await iterator.next();
+      if (done) {
+        exhausted = true;
+        return;
+      }
+      await worker(value, index);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, lane));
+  } finally {
+    // Let the source release resources such as open files when we stop early
+    if (!exhausted) {
+      await iterator.return?.();
+    }
+  }
+}
+
+/**
+ * Aggregate per-item results into batch totals
+ */
+export function summarizeBatch(results: BatchItemResult[]): BatchQueryResponse {
+  const totals: BatchTotals = {
+    hits: 0,
+    misses: 0,
+    errors: 0,
+    skipped: 0,
+    tokens_used: 0,
+    estimated_cost: 0
+  };
+
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      const response: SemanticQueryResponse = result.response;
+      if (response.is_cache_hit) {
+        totals.hits++;
+      } else {
+        totals.misses++;
+      }
+      totals.tokens_used += response.tokens_used || 0;
+      totals.estimated_cost += response.estimated_cost || 0;
+    } else if (result.status === 'rejected') {
+      totals.errors++;
+    } else {
+      totals.skipped++;
+    }
+  }
+
+  return { results, totals };
+}
+
+/**
+ * Split an array into chunks of at most `size` items
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
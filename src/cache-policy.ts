@@ -0,0 +1,79 @@
+/**
+ * Cache policy engine for Vectorcache SDK
+ * Decides per query whether the cache is read and written, and with which threshold and TTL
+ */
+
+import { AppliedCachePolicy, CacheMode, CachePolicy, CachePolicyRule, SemanticQueryRequest } from './types';
+import { matchesMetadata } from './local-backend';
+
+/** Whether queries under this mode may be answered from the cache */
+export function canReadCache(mode: CacheMode): boolean {
+  return mode === 'read-write' || mode === 'read-only';
+}
+
+/** Whether queries under this mode store their answers */
+export function canWriteCache(mode: CacheMode): boolean {
+  return mode === 'read-write' || mode === 'write-only';
+}
+
+function inRange(value: number | undefined, range?: { min?: number; max?: number }): boolean {
+  if (!range) {
+    return true;
+  }
+  if (value === undefined) {
+    return false;
+  }
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+function ruleMatches(rule: CachePolicyRule, request: SemanticQueryRequest): boolean {
+  const models = rule.model === undefined ? undefined : ([] as string[]).concat(rule.model);
+
+  return inRange(request.temperature, rule.temperature) &&
+    (models === undefined || (request.model !== undefined && models.includes(request.model))) &&
+    (rule.metadata === undefined || matchesMetadata(request.metadata, rule.metadata)) &&
+    inRange(request.messages ? request.messages.length : 1, rule.messageCount) &&
+    (rule.when === undefined || rule.when(request));
+}
+
+/**
+ * Apply a policy to a request, or return `undefined` if no policy is configured
+ */
+export function resolveCachePolicy(
+  policy: CachePolicy | CacheMode | undefined,
+  request: SemanticQueryRequest
+): AppliedCachePolicy | undefined {
+  if (policy === undefined) {
+    return undefined;
+  }
+  if (typeof policy === 'string') {
+    return { mode: policy };
+  }
+
+  const index = (policy.rules || []).findIndex(rule => ruleMatches(rule, request));
+  const rule = index === -1 ? undefined : policy.rules![index];
+  const similarityThreshold = rule?.similarityThreshold ?? policy.similarityThreshold;
+  const ttlSeconds = rule?.ttlSeconds ?? policy.ttlSeconds;
+
+  return {
+    mode: rule ? rule.mode : policy.defaultMode || 'read-write',
+    ...(rule && { rule: rule.name || `rules[${index}]` }),
+    ...(similarityThreshold !== undefined && { similarity_threshold: similarityThreshold }),
+    ...(ttlSeconds !== undefined && { ttl_seconds: ttlSeconds })
+  };
+}
+
+/**
+ * Request body fields that carry a policy to the API; empty for plain read-write
+ */
+export function cachePolicyFields(policy?: AppliedCachePolicy): Record<string, string | number> {
+  if (!policy) {
+    return {};
+  }
+
+  return {
+    ...(policy.mode !== 'read-write' && { cache_mode: policy.mode }),
+    ...(policy.similarity_threshold !== undefined && { similarity_threshold: policy.similarity_threshold }),
+    ...(policy.ttl_seconds !== undefined && { ttl_seconds: policy.ttl_seconds })
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Circuit breaker for Vectorcache SDK
+ */
+
+import { CircuitBreakerOptions, CircuitState } from './types';
+
+import {
+  VectorcacheCircuitOpenError,
+  VectorcacheNetworkError,
+  VectorcacheServerError,
+  VectorcacheTimeoutError
+} from './errors';
+
+type ResolvedCircuitBreakerOptions = Required<Omit<CircuitBreakerOptions, 'onStateChange'>> &
+  Pick<CircuitBreakerOptions, 'onStateChange'>;
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: ResolvedCircuitBreakerOptions = {
+  failureThreshold: 0.5,
+  minimumRequests: 10,
+  windowMs: 60000,
+  openDurationMs: 30000,
+  probeTimeoutMs: 5000
+};
+
+interface Outcome {
+  time: number;
+  failed: boolean;
+}
+
+/**
+ * Whether an error means the API itself is unavailable, as opposed to a
+ * problem with the request (validation, auth, rate limits, cancellation)
+ */
+export function isAvailabilityError(error: unknown): boolean {
+  return (
+    error instanceof VectorcacheNetworkError ||
+    error instanceof VectorcacheTimeoutError ||
+    error instanceof VectorcacheServerError ||
+    error instanceof VectorcacheCircuitOpenError
+  );
+}
+
+/**
+ * Tracks the failure rate of API calls over a rolling window.
+ *
+ * Closed: calls go through. Open: calls fail fast with
+ * VectorcacheCircuitOpenError. Once `openDurationMs` has passed, the next
+ * call runs `probe` (half-open); success closes the circuit, failure
+ * opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: Outcome[] = [];
+  private openedAt = 0;
+  private probing = false;
+  private readonly options: ResolvedCircuitBreakerOptions;
+
+  constructor(options: CircuitBreakerOptions, private readonly probe: (timeoutMs: number) => Promise<unknown>) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Resolve when a call may go through; throw VectorcacheCircuitOpenError otherwise
+   */
+  async acquire(): Promise<void> {
+    if (this.state === 'closed') {
+      return;
+    }
+
+    const retryInMs = this.openedAt + this.options.openDurationMs - Date.now();
+    if (this.probing || retryInMs > 0) {
+      throw new VectorcacheCircuitOpenError(undefined, { retryInMs: Math.max(0, retryInMs) });
+    }
+
+    this.probing = true;
+    this.transition('half-open');
+
+    try {
+      await this.probe(this.options.probeTimeoutMs);
+    } catch (error) {
+      this.open();
+      throw new VectorcacheCircuitOpenError(undefined, { retryInMs: this.options.openDurationMs, cause: error });
+    } finally {
+      this.probing = false;
+    }
+
+    this.outcomes = [];
+    this.transition('closed');
+  }
+
+  recordSuccess(): void {
+    this.record(false);
+  }
+
+  /**
+   * Count a failed call; errors caused by the request itself are ignored
+   */
+  recordFailure(error: unknown): void {
+    if (isAvailabilityError(error) && !(error instanceof VectorcacheCircuitOpenError)) {
+      this.record(true);
+    }
+  }
+
+  private record(failed: boolean): void {
+    // Calls that started before the circuit opened do not count
+    if (this.state !== 'closed') {
+      return;
+    }
+
+    const now = Date.now();
+    this.outcomes.push({ time: now, failed });
+    this.outcomes = this.outcomes.filter(outcome => now - outcome.time < this.options.windowMs);
+
+    const failures = this.outcomes.filter(outcome => outcome.failed).length;
+    if (
+      this.outcomes.length >= this.options.minimumRequests &&
+      failures / this.outcomes.length >= this.options.failureThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.outcomes = [];
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    if (previous !== state) {
+      this.state = state;
+      this.options.onStateChange?.(state, previous);
+    }
+  }
+}
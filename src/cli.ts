@@ -0,0 +1,386 @@
+#!/usr/bin/env node
+/**
+ * Command-line tool for Vectorcache SDK
+ *
+ * @example
+ * ```bash
+ * vectorcache stats my-project
+ * vectorcache test "What is AI?" --project my-project --threshold 0.8 --debug
+ * vectorcache clear --project my-project --expired-only --yes
+ * ```
+ */
+
+import { VectorcacheClient } from './client';
+import { CacheTestResponse, VectorcacheConfig, WorkflowStep } from './types';
+
+export interface CliIO {
+  /** Write to standard output */
+  stdout: (text: string) => void;
+  /** Write to standard error */
+  stderr: (text: string) => void;
+  /** Ask a question and resolve with the answer, or `undefined` when no terminal is attached */
+  prompt: (question: string) => Promise<string | undefined>;
+  /** Environment variables */
+  env: Record<string, string | undefined>;
+  /** Read a file, or return `undefined` if it does not exist */
+  readFile: (path: string) => Promise<string | undefined>;
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+class CliUsageError extends Error {}
+
+/** Flags that never take a value */
+const BOOLEAN_FLAGS = ['json', 'debug', 'expired-only', 'yes', 'all', 'help'];
+
+const USAGE = `Usage: vectorcache <command> [options]
+
+Commands:
+  health                      Check API health and connectivity
+  stats [project]             Show cache statistics for a project
+  similar <query>             Find similar cached queries
+  test <prompt>               Run a cache test (--threshold <0-1>, --debug, --context, --model)
+  clear                       Clear cache entries (--expired-only, --older-than <hours>, --yes, --all)
+  query <text>                Make a cached query (--context, --model, --max-tokens, --temperature)
+
+Options:
+  --project <id>              Project ID (default: VECTORCACHE_PROJECT_ID or config file)
+  --api-key <key>             API key (default: VECTORCACHE_API_KEY or config file)
+  --base-url <url>            API base URL (default: VECTORCACHE_BASE_URL or config file)
+  --config <path>             Config file (default: VECTORCACHE_CONFIG or ~/.vectorcache.json)
+  --json                      Print raw JSON for scripting
+  --help                      Show this help
+`;
+
+/**
+ * Parse `--flag value`, `--flag=value` and boolean flags; everything else is positional
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (BOOLEAN_FLAGS.includes(name)) {
+      flags[name] = true;
+    } else if (i + 1 < argv.length) {
+      flags[name] = argv[++i];
+    } else {
+      throw new CliUsageError(`Missing value for --${name}`);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function numberFlag(args: ParsedArgs, name: string): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (Number.isNaN(number)) {
+    throw new CliUsageError(`--${name} must be a number`);
+  }
+  return number;
+}
+
+/**
+ * Resolve client settings: flags first, then environment variables, then the config file
+ */
+async function loadConfig(args: ParsedArgs, io: CliIO): Promise<VectorcacheConfig> {
+  const home = io.env.HOME || io.env.USERPROFILE;
+  const configPath = stringFlag(args, 'config') || io.env.VECTORCACHE_CONFIG || (home && `${home}/.vectorcache.json`);
+  let file: Partial<VectorcacheConfig> = {};
+
+  if (configPath) {
+    const contents = await io.readFile(configPath);
+    if (contents === undefined && (stringFlag(args, 'config') || io.env.VECTORCACHE_CONFIG)) {
+      throw new CliUsageError(`Config file not found: ${configPath}`);
+    }
+    if (contents !== undefined) {
+      try {
+        file = JSON.parse(contents);
+      } catch {
+        throw new CliUsageError(`Config file is not valid JSON: ${configPath}`);
+      }
+    }
+  }
+
+  const apiKey = stringFlag(args, 'api-key') || io.env.VECTORCACHE_API_KEY || file.apiKey;
+  if (!apiKey) {
+    throw new CliUsageError('No API key: set VECTORCACHE_API_KEY, pass --api-key or add apiKey to the config file');
+  }
+
+  return {
+    apiKey,
+    baseUrl: stringFlag(args, 'base-url') || io.env.VECTORCACHE_BASE_URL || file.baseUrl,
+    projectId: stringFlag(args, 'project') || io.env.VECTORCACHE_PROJECT_ID || file.projectId,
+    timeout: file.timeout
+  };
+}
+
+/**
+ * Render rows as a plain-text table with padded columns
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => (row[i] || '').length)));
+  const line = (cells: string[]) => cells.map((cell, i) => (cell || '').padEnd(widths[i])).join('  ').trimEnd();
+
+  return [line(headers), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
+
+function formatWorkflowSteps(steps: WorkflowStep[]): string {
+  return formatTable(
+    ['#', 'Step', 'Status', 'Duration', 'Details'],
+    steps.map(step => [
+      String(step.id),
+      step.name,
+      step.status,
+      step.duration !== undefined ? `${step.duration}ms` : '',
+      step.details || ''
+    ])
+  );
+}
+
+function formatTestResult(result: CacheTestResponse, debug: boolean): string {
+  const lines = [
+    `Cache hit:     ${result.cache_hit ? 'yes' : 'no'}`,
+    ...(result.similarity_score !== undefined ? [`Similarity:    ${result.similarity_score.toFixed(3)}`] : []),
+    `Response time: ${result.response_time}ms`,
+    ...(result.cost_saved !== undefined ? [`Cost saved:    $${result.cost_saved.toFixed(6)}`] : []),
+    ...(result.cost_spent !== undefined ? [`Cost spent:    $${result.cost_spent.toFixed(6)}`] : []),
+    '',
+    result.response
+  ];
+
+  if (debug && result.workflow_steps?.length) {
+    lines.push('', formatWorkflowSteps(result.workflow_steps));
+  }
+
+  return lines.join('\n');
+}
+
+function requireProject(client: VectorcacheClient, explicit?: string): string {
+  const projectId = explicit || client.getConfig().projectId;
+  if (!projectId) {
+    throw new CliUsageError('No project: pass --project, set VECTORCACHE_PROJECT_ID or add projectId to the config file');
+  }
+  return projectId;
+}
+
+async function runCommand(command: string, args: ParsedArgs, client: VectorcacheClient, io: CliIO): Promise<unknown> {
+  const json = args.flags.json === true;
+  const [, ...rest] = args.positionals;
+  const print = (data: unknown, text: () => string) => io.stdout(json ? JSON.stringify(data, null, 2) : text());
+
+  switch (command) {
+    case 'health': {
+      const health = await client.health();
+      print(health, () => `${health.status} (${health.timestamp})`);
+      return health;
+    }
+
+    case 'stats': {
+      const stats = await client.getCacheStats(requireProject(client, rest[0]));
+      print(stats, () => formatTable(['Metric', 'Value'], [
+        ['Project', stats.project_id],
+        ['Total entries', String(stats.total_entries)],
+        ['Active entries', String(stats.active_entries)],
+        ['Expired entries', String(stats.expired_entries)],
+        ['Total hits', String(stats.total_hits)],
+        ['Tokens saved', String(stats.total_tokens_saved)],
+        ['Cost saved', `$${stats.total_cost_saved.toFixed(4)}`],
+        ['Avg similarity', stats.avg_similarity_score.toFixed(3)],
+        ['Cache size', `${stats.cache_size_mb.toFixed(2)} MB`]
+      ]));
+      return stats;
+    }
+
+    case 'similar': {
+      const query = rest.join(' ');
+      if (!query) {
+        throw new CliUsageError('Usage: vectorcache similar <query>');
+      }
+      const similar = await client.findSimilarQueries(query, requireProject(client));
+      print(similar, () => formatTable(
+        ['Similarity', 'Query', 'ID'],
+        similar.similar_entries.map(entry => [Number(entry.similarity).toFixed(3), entry.original_query, entry.id])
+      ));
+      return similar;
+    }
+
+    case 'test': {
+      const prompt = rest.join(' ');
+      if (!prompt) {
+        throw new CliUsageError('Usage: vectorcache test <prompt> [--threshold <0-1>] [--debug]');
+      }
+      const debug = args.flags.debug === true;
+      const result = await client.testCache({
+        project_id: requireProject(client),
+        prompt,
+        context: stringFlag(args, 'context'),
+        model: stringFlag(args, 'model'),
+        similarity_threshold: numberFlag(args, 'threshold'),
+        include_debug: debug
+      });
+      print(result, () => formatTestResult(result, debug));
+      return result;
+    }
+
+    case 'clear': {
+      const projectId = client.getConfig().projectId;
+      if (!projectId && args.flags.all !== true) {
+        throw new CliUsageError('Refusing to clear every project; pass --project <id>, or --all to clear them all');
+      }
+      // A configured project would otherwise narrow --all to that project without saying so
+      if (projectId && args.flags.all === true) {
+        throw new CliUsageError(
+          `--all cannot be combined with project ${projectId}; unset --project, VECTORCACHE_PROJECT_ID and the config file projectId`
+        );
+      }
+      const request = {
+        project_id: projectId,
+        expired_only: args.flags['expired-only'] === true || undefined,
+        older_than_hours: numberFlag(args, 'older-than')
+      };
+
+      if (args.flags.yes !== true) {
+        const scope = [
+          request.expired_only && 'expired',
+          request.older_than_hours !== undefined && `older than ${request.older_than_hours}h`
+        ].filter(Boolean).join(', ');
+        const answer = await io.prompt(
+          `Clear ${scope ? `${scope} ` : 'all '}cache entries in ${projectId ? `project ${projectId}` : 'ALL projects'}? [y/N] `
+        );
+        if (answer === undefined) {
+          throw new CliUsageError('Refusing to clear without confirmation; pass --yes to skip the prompt');
+        }
+        if (!/^y(es)?$/i.test(answer.trim())) {
+          io.stderr('Aborted');
+          return undefined;
+        }
+      }
+
+      const result = await client.clearCache(request);
+      print(result, () => `Cleared ${result.entries_cleared} entries (${result.space_freed_mb.toFixed(2)} MB freed)`);
+      return result;
+    }
+
+    case 'query': {
+      const query = rest.join(' ');
+      if (!query) {
+        throw new CliUsageError('Usage: vectorcache query <text>');
+      }
+      const result = await client.query({
+        query,
+        context: stringFlag(args, 'context'),
+        model: stringFlag(args, 'model'),
+        max_tokens: numberFlag(args, 'max-tokens'),
+        temperature: numberFlag(args, 'temperature')
+      });
+      print(result, () => {
+        const hit = result.is_cache_hit
+          ? `hit${result.similarity_score !== undefined ? `, similarity ${result.similarity_score.toFixed(3)}` : ''}`
+          : 'miss';
+        return `${result.response}\n\n(${hit}, ${result.response_time_ms}ms)`;
+      });
+      return result;
+    }
+
+    default:
+      throw new CliUsageError(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+/**
+ * Run the CLI and resolve with the process exit code
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    const command = args.positionals[0];
+
+    if (!command || args.flags.help === true) {
+      io.stdout(USAGE);
+      return command || args.flags.help === true ? 0 : 2;
+    }
+
+    const config = await loadConfig(args, io);
+    const client = new VectorcacheClient({ ...config, logLevel: 'none' });
+
+    await runCommand(command, args, client, io);
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr(error.message);
+      return 2;
+    }
+
+    const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    io.stderr(message);
+    return 1;
+  }
+}
+
+async function main(): Promise<void> {
+  const fs = await import('fs');
+  const readline = await import('readline');
+
+  const io: CliIO = {
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`),
+    env: process.env,
+    readFile: async path => {
+      try {
+        return await fs.promises.readFile(path, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    prompt: question => {
+      if (!process.stdin.isTTY) {
+        return Promise.resolve(undefined);
+      }
+      const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+      return new Promise(resolve => rl.question(question, answer => {
+        rl.close();
+        resolve(answer);
+      }));
+    }
+  };
+
+  process.exitCode = await runCli(process.argv.slice(2), io);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
@@ -12,203 +12,1913 @@ import {
   CacheTestResponse,
   ClearCacheRequest,
   ClearCacheResponse,
+  InvalidateRequest,
+  InvalidateOptions,
+  InvalidateResponse,
   SimilarQueriesResponse,
+  SearchSimilarOptions,
+  SimilarSearchRequest,
+  SimilarEntryPage,
   RequestOptions,
-  LogLevel
+  RetryPolicy,
+  QueryStreamEvent,
+  Logger,
+  Interceptor,
+  InterceptorRequest,
+  InterceptorResponse,
+  CacheLookupResponse,
+  CacheStoreRequest,
+  CacheStoreResponse,
+  BatchQueryOptions,
+  BatchQueryResponse,
+  BatchItemResult,
+  CacheEntry,
+  CacheEntryPage,
+  ListEntriesOptions,
+  UpdateCacheEntryRequest,
+  DeleteCacheEntryResponse,
+  ExportCacheOptions,
+  ExportCacheResult,
+  ImportCacheOptions,
+  ImportCacheResult,
+  CacheImportRequest,
+  CacheImportResponse,
+  CacheSnapshotRecord,
+  WarmCacheOptions,
+  WarmCacheProgress,
+  WarmCacheResult,
+  CircuitState,
+  LLMProvider,
+  MetricsSnapshot,
+  Tracer,
+  LogLevel,
+  CachePolicy,
+  AppliedCachePolicy
 } from './types';
 
 import {
   VectorcacheAPIError,
   VectorcacheNetworkError,
   VectorcacheTimeoutError,
-  createErrorFromResponse
+  VectorcacheAbortError,
+  VectorcacheSchemaError,
+  VectorcacheValidationError,
+  createErrorFromResponse,
+  createErrorFromStatus
 } from './errors';
 
+import {
+  resolveRetryPolicy,
+  isRetryableError,
+  computeRetryDelay,
+  sleep
+} from './retry';
+
+import { L1Cache, normalizeQueryKey } from './l1-cache';
+import { LocalBackend, requestToText } from './local-backend';
+import { parseServerSentEvents } from './sse';
+import { runWithConcurrency, runIterableWithConcurrency, summarizeBatch, chunk } from './batch';
+import { SingleFlight } from './single-flight';
+import { linkAbortSignal, raceWithSignal, throwIfAborted } from './abort';
+import {
+  SnapshotDestination,
+  SnapshotSource,
+  readSnapshotRecords,
+  toSnapshotRecord,
+  writeJsonl
+} from './snapshot';
+import { WarmCacheSource, readWarmPrompts } from './warm';
+import { CircuitBreaker, isAvailabilityError } from './circuit-breaker';
+import { MeasuredResponse, MetricLabels, MetricsRecorder } from './metrics';
+import { endRequestSpan, startRequestSpan } from './tracing';
+import { createRecordReplayFetch } from './record-replay';
+import { cachePolicyFields, canReadCache, canWriteCache, resolveCachePolicy } from './cache-policy';
+import { PiiRedactor, RedactedRequest, createStreamRestorer } from './pii';
+import { CacheEncryptor, isEncrypted } from './encryption';
+import {
+  RESPONSE_SCHEMAS,
+  ResponseSchema,
+  getQueryRequestErrors,
+  validateCacheTestRequest,
+  validateClearCacheRequest,
+  validateInvalidateRequest,
+  validateListEntriesOptions,
+  validateQueryRequest,
+  validateResponse,
+  validateSearchSimilarOptions,
+  validateStoreRequest,
+  validateUpdateEntryRequest
+} from './validation';
+
+/**
+ * Replay a complete response as stream events
+ */
+async function* responseToStreamEvents(response: SemanticQueryResponse): AsyncGenerator<QueryStreamEvent> {
+  yield { type: 'delta', delta: response.response };
+  yield { type: 'done', response };
+}
+
+/** Project used in local mode when no project ID is configured */
+const LOCAL_PROJECT_ID = 'local';
+
+/**
+ * Build a query string from the defined values, e.g. '?limit=10&sort_by=hit_count'
+ */
+function toQueryString(params: Record<string, string | number | boolean | undefined>): string {
+  const pairs = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+
+  return pairs.length > 0 ? `?${pairs.join('&')}` : '';
+}
+
+/**
+ * Add the call's project to a request body
+ */
+function withProject<T extends SemanticQueryRequest>(request: T, options?: RequestOptions): T {
+  return options?.projectId ? { ...request, project_id: options.projectId } : request;
+}
+
+/**
+ * Drop the metadata from a lookup, which does not need it for matching
+ */
+function withoutMetadata<T extends SemanticQueryRequest>(request: T): T {
+  const { metadata, ...rest } = request;
+  return rest as T;
+}
+
+/**
+ * Report the applied cache policy on a response
+ */
+function withCachePolicy<T extends { cache_policy?: AppliedCachePolicy }>(response: T, policy?: AppliedCachePolicy): T {
+  return policy ? { ...response, cache_policy: policy } : response;
+}
+
+/** Server-Sent Events of a streamed query; any others are ignored */
+const STREAM_EVENTS = ['delta', 'done', 'error'];
+
+/** Maximum number of requests sent in one bulk query call */
+const BULK_QUERY_CHUNK_SIZE = 100;
+
+/** Default number of entries uploaded per import request */
+const IMPORT_CHUNK_SIZE = 100;
+
+/** Mutable state of a client, shared with its views so that writes through a view reach all of them */
+interface SharedState {
+  /** Project used when neither the call nor the view sets one */
+  defaultProjectId?: string;
+  /** Whether the API has a bulk query endpoint, once a bulk call has found out */
+  bulkQuerySupported?: boolean;
+}
+
 export class VectorcacheClient {
   private readonly apiKey: string;
   private readonly baseUrl: string;
-  private readonly defaultProjectId?: string;
+  private readonly resolveProject?: (request: SemanticQueryRequest) => string | undefined;
+  private readonly scope: Readonly<RequestOptions> = {};
   private readonly timeout: number;
   private readonly logLevel: LogLevel;
+  private readonly logger?: Logger;
+  private readonly logBodies: boolean;
+  private readonly interceptors: Interceptor[];
+  private readonly strictResponses: boolean;
+  private readonly retry?: RetryPolicy | false;
+  private readonly l1Cache?: L1Cache;
+  private readonly localBackend?: LocalBackend;
+  private readonly inFlightQueries?: SingleFlight<SemanticQueryResponse>;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly fallback?: LLMProvider;
+  private readonly cachePolicy?: CachePolicy;
+  private readonly piiRedactor?: PiiRedactor;
+  private readonly encryptor?: CacheEncryptor;
+  private readonly metricsRecorder?: MetricsRecorder;
+  private readonly tracer?: Tracer;
+  private readonly fetchImpl?: typeof fetch;
+  private readonly shared: SharedState;
+
+  constructor(config: VectorcacheConfig & { logLevel?: LogLevel }) {
+    if (!config.apiKey && !config.local) {
+      throw new Error('API key is required');
+    }
+
+    this.apiKey = config.apiKey || '';
+    this.baseUrl = config.baseUrl || 'https://api.vectorcache.com';
+    this.shared = { defaultProjectId: config.projectId };
+    this.resolveProject = config.resolveProject;
+    this.timeout = config.timeout || 30000; // 30 seconds default
+    this.logger = config.logger;
+    // An external logger does its own level filtering
+    this.logLevel = config.logLevel || (config.logger ? 'debug' : 'warn');
+    this.logBodies = config.logBodies !== false;
+    this.interceptors = config.interceptors || [];
+    this.strictResponses = config.strictResponses || false;
+    this.retry = config.retry;
+
+    if (config.local) {
+      if (config.encryption) {
+        throw new Error('Encryption is not supported in local mode');
+      }
+      this.localBackend = new LocalBackend(config.local);
+    }
+
+    if (config.encryption) {
+      this.encryptor = new CacheEncryptor(config.encryption);
+    }
+
+    if (config.coalesceRequests) {
+      this.inFlightQueries = new SingleFlight<SemanticQueryResponse>();
+    }
+
+    if (config.l1Cache) {
+      this.l1Cache = new L1Cache(config.l1Cache === true ? {} : config.l1Cache);
+    }
+
+    if (config.circuitBreaker && !config.local) {
+      this.circuitBreaker = new CircuitBreaker(
+        config.circuitBreaker === true ? {} : config.circuitBreaker,
+        timeout => this.executeRequest(this.createRequestContext('GET', '/health', undefined, 1), { timeout })
+      );
+    }
+
+    this.fallback = config.fallback;
+    this.cachePolicy = config.cachePolicy;
+
+    if (config.piiRedaction) {
+      this.piiRedactor = new PiiRedactor(config.piiRedaction === true ? {} : config.piiRedaction);
+    }
+    this.tracer = config.tracer;
+    this.fetchImpl = config.recordReplay
+      ? createRecordReplayFetch(config.recordReplay, this.baseUrl, config.fetch)
+      : config.fetch;
+
+    if (config.metrics !== false) {
+      this.metricsRecorder = new MetricsRecorder();
+    }
+  }
+
+  /**
+   * Make a cached query to your LLM
+   */
+  async query(request: SemanticQueryRequest, options?: RequestOptions): Promise<SemanticQueryResponse> {
+    validateQueryRequest(request);
+    const resolved = this.resolveOptions(options, request);
+    if (!this.piiRedactor) {
+      return this.measure(request, resolved, () => this.runQuery(request, resolved));
+    }
+
+    const redacted = await this.redactQuery(request, resolved);
+    const response = await this.measure(
+      redacted.request,
+      redacted.options,
+      () => this.runQuery(redacted.request, redacted.options)
+    );
+
+    return redacted.restore ? { ...response, response: redacted.restore(response.response) } : response;
+  }
+
+  /**
+   * Apply PII redaction to a query; queries sent past the cache get the bypass cache policy
+   */
+  private async redactQuery(
+    request: SemanticQueryRequest,
+    options: RequestOptions
+  ): Promise<{ request: SemanticQueryRequest; options: RequestOptions; restore?: (text: string) => string }> {
+    const redacted = await this.piiRedactor!.redactQuery(request);
+    return {
+      request: redacted.request,
+      options: redacted.bypassCache ? { ...options, cachePolicy: 'bypass' } : options,
+      restore: redacted.restore
+    };
+  }
+
+  /**
+   * Serve a query from the L1 cache, an identical in-flight query or the API
+   */
+  private async runQuery(request: SemanticQueryRequest, options?: RequestOptions): Promise<SemanticQueryResponse> {
+    const policy = this.cachePolicyFor(request, options);
+    const read = !policy || canReadCache(policy.mode);
+    const write = !policy || canWriteCache(policy.mode);
+
+    if (!this.l1Cache && !this.inFlightQueries) {
+      return withCachePolicy(await this.sendQuery(request, options, policy), policy);
+    }
+
+    const startTime = Date.now();
+    const key = `${options?.projectId || ''}:${normalizeQueryKey(request)}`;
+
+    if (this.l1Cache && read && !options?.bypassL1Cache) {
+      const cached = this.l1Cache.get(key);
+      if (cached) {
+        this.log('debug', 'L1 cache hit', { query_id: cached.query_id });
+        return withCachePolicy({
+          ...cached,
+          is_cache_hit: true,
+          is_local_hit: true,
+          response_time_ms: Date.now() - startTime
+        }, policy);
+      }
+    }
+
+    // Queries that skip the cache must reach the LLM themselves, so they are never coalesced
+    if (!this.inFlightQueries || !read || options?.coalesce === false) {
+      const response = await this.sendQuery(request, options, policy);
+      if (write && !response.degraded) {
+        this.l1Cache?.set(key, response);
+      }
+      return withCachePolicy(response, policy);
+    }
+
+    const { value: response, shared } = await this.inFlightQueries.run(key, async signal => {
+      // The shared call is only cancelled once every waiting caller has aborted
+      const result = await this.sendQuery(request, { ...options, signal }, policy);
+      if (write && !result.degraded) {
+        this.l1Cache?.set(key, result);
+      }
+      return result;
+    }, options?.signal);
+
+    if (shared) {
+      this.log('debug', 'Coalesced with an in-flight query', { query_id: response.query_id });
+      return withCachePolicy({ ...response, is_coalesced: true }, policy);
+    }
+
+    return withCachePolicy(response, policy);
+  }
+
+  /**
+   * Make a cached query and stream the response as it is generated
+   *
+   * Yields `delta` events with response text, followed by a single `done`
+   * event carrying the full response metadata. Cache hits are delivered
+   * the same way, as one delta. The timeout covers the whole stream.
+   */
+  async *queryStream(request: SemanticQueryRequest, options?: RequestOptions): AsyncGenerator<QueryStreamEvent> {
+    validateQueryRequest(request);
+    options = this.resolveOptions(options, request);
+    if (!this.piiRedactor) {
+      yield* this.measureStream(request, options);
+      return;
+    }
+
+    const redacted = await this.redactQuery(request, options);
+    const events = this.measureStream(redacted.request, redacted.options);
+
+    if (!redacted.restore) {
+      yield* events;
+      return;
+    }
+
+    const restorer = createStreamRestorer(redacted.restore);
+    for await (const event of events) {
+      if (event.type === 'delta') {
+        const delta = restorer.push(event.delta);
+        if (delta) {
+          yield { type: 'delta', delta };
+        }
+        continue;
+      }
+
+      const rest = restorer.flush();
+      if (rest) {
+        yield { type: 'delta', delta: rest };
+      }
+      yield { type: 'done', response: { ...event.response, response: redacted.restore(event.response.response) } };
+    }
+  }
+
+  /**
+   * Stream a query, recording metrics for it
+   */
+  private async *measureStream(request: SemanticQueryRequest, options: RequestOptions): AsyncGenerator<QueryStreamEvent> {
+    if (!this.metricsRecorder) {
+      yield* this.streamQuery(request, options);
+      return;
+    }
+
+    const labels = this.metricLabels(request, options);
+    const startTime = Date.now();
+
+    try {
+      for await (const event of this.streamQuery(request, options)) {
+        if (event.type === 'done') {
+          this.metricsRecorder.recordResponse(labels, event.response, Date.now() - startTime);
+        }
+        yield event;
+      }
+    } catch (error) {
+      this.metricsRecorder.recordError(labels, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a query from the L1 cache or the API
+   */
+  private async *streamQuery(request: SemanticQueryRequest, options?: RequestOptions): AsyncGenerator<QueryStreamEvent> {
+    const policy = this.cachePolicyFor(request, options);
+    const read = !policy || canReadCache(policy.mode);
+    const write = !policy || canWriteCache(policy.mode);
+    const key = this.l1Cache ? `${options?.projectId || ''}:${normalizeQueryKey(request)}` : undefined;
+
+    if (this.l1Cache && key && read && !options?.bypassL1Cache) {
+      const cached = this.l1Cache.get(key);
+      if (cached) {
+        yield* responseToStreamEvents(withCachePolicy(
+          { ...cached, is_cache_hit: true, is_local_hit: true, response_time_ms: 0 },
+          policy
+        ));
+        return;
+      }
+    }
+
+    // Encrypted answers come from the caller's LLM, so there is no server stream
+    if (this.localBackend || this.encryptor) {
+      const response = await this.sendQuery(request, options, policy);
+      yield* responseToStreamEvents(withCachePolicy(response, policy));
+      return;
+    }
+
+    const endpoint = '/v1/cache/query';
+    const url = `${this.baseUrl}${endpoint}`;
+    const timeout = options?.timeout || this.timeout;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const unlinkSignal = linkAbortSignal(controller, options?.signal);
+
+    let context: InterceptorRequest | undefined;
+    let startTime = Date.now();
+
+    this.log('debug', `Making streaming POST request to ${url}`, this.logBodies ? { body: request } : undefined);
+
+    try {
+      let response: Response;
+      try {
+        response = await this.withRetries('POST', endpoint, options, true, async attempt => {
+          context = this.createRequestContext(
+            'POST',
+            endpoint,
+            { ...withProject(request, options), ...cachePolicyFields(policy), stream: true },
+            attempt
+          );
+          context.headers['Accept'] = 'text/event-stream';
+          await this.runRequestInterceptors(context);
+          startTime = Date.now();
+
+          try {
+            const streamResponse = await (this.fetchImpl || fetch)(url, {
+              method: 'POST',
+              headers: context.headers,
+              body: JSON.stringify(context.body),
+              signal: controller.signal
+            });
+
+            if (!streamResponse.ok) {
+              await this.parseResponse(url, streamResponse, context, startTime);
+            }
+
+            return streamResponse;
+          } catch (error) {
+            throw this.normalizeError(error, url, timeout, options?.signal);
+          }
+        });
+      } catch (error) {
+        if (!this.canFallBack(error)) {
+          throw error;
+        }
+        yield* responseToStreamEvents(withCachePolicy(await this.runFallback(request, error), policy));
+        return;
+      }
+
+      // Servers that do not stream (or answer a hit directly) reply with plain JSON
+      const contentType = response.headers.get('Content-Type') || '';
+      if (!contentType.includes('text/event-stream') || !response.body) {
+        const result = this.checkResponse<SemanticQueryResponse>(
+          await this.parseResponse(url, response, context, startTime),
+          RESPONSE_SCHEMAS.semanticQuery,
+          endpoint
+        );
+        if (key && write) {
+          this.l1Cache?.set(key, result);
+        }
+        yield* responseToStreamEvents(withCachePolicy(result, policy));
+        return;
+      }
+
+      for await (const event of parseServerSentEvents(response.body)) {
+        // Other events, such as keepalive pings, carry no JSON and are ignored
+        if (!STREAM_EVENTS.includes(event.event)) {
+          continue;
+        }
+        const data = JSON.parse(event.data);
+
+        if (event.event === 'delta') {
+          yield { type: 'delta', delta: data.delta };
+        } else if (event.event === 'done') {
+          const result = this.checkResponse<SemanticQueryResponse>(data, RESPONSE_SCHEMAS.semanticQuery, endpoint);
+          if (context) {
+            await this.runResponseInterceptors({
+              request: context,
+              status: response.status,
+              durationMs: Date.now() - startTime,
+              body: result
+            });
+          }
+          if (key && write) {
+            this.l1Cache?.set(key, result);
+          }
+          yield { type: 'done', response: withCachePolicy(result, policy) };
+          return;
+        } else if (event.event === 'error') {
+          throw new VectorcacheAPIError(data.message || 'Stream failed', data.status, data.code || 'STREAM_ERROR', data);
+        }
+      }
+
+      throw new VectorcacheNetworkError('Stream ended before the final event');
+    } catch (error) {
+      throw this.normalizeError(error, url, timeout, options?.signal);
+    } finally {
+      clearTimeout(timeoutId);
+      unlinkSignal();
+      // Release the connection if the consumer stopped iterating early
+      controller.abort();
+    }
+  }
+
+  /**
+   * Run many queries with bounded concurrency
+   *
+   * Failures do not reject the batch: each item resolves to either a response
+   * or the typed error it failed with. Uses the server's bulk endpoint when
+   * available and falls back to client-side fan-out otherwise.
+   */
+  async queryBatch(requests: SemanticQueryRequest[], options: BatchQueryOptions = {}): Promise<BatchQueryResponse> {
+    const { concurrency = 5, stopOnError = false, bulk = true, ...requestOptions } = this.applyScope(options);
+    const results: BatchItemResult[] = new Array(requests.length);
+    let failed = false;
+
+    const useBulk = bulk && !this.localBackend && !this.l1Cache && !this.piiRedactor && !this.encryptor &&
+      this.shared.bulkQuerySupported !== false;
+
+    if (useBulk) {
+      const bulkResults = await this.sendBulkQuery(requests, requestOptions, stopOnError, concurrency);
+      if (bulkResults) {
+        return summarizeBatch(bulkResults);
+      }
+    }
+
+    await runWithConcurrency(requests, concurrency, async (request, index) => {
+      try {
+        results[index] = { index, status: 'fulfilled', response: await this.query(request, requestOptions) };
+      } catch (error) {
+        failed = true;
+        results[index] = { index, status: 'rejected', error: this.normalizeError(error, '/v1/cache/query', 0) };
+      }
+    }, () => (stopOnError && failed) || Boolean(requestOptions.signal?.aborted));
+
+    for (let index = 0; index < requests.length; index++) {
+      results[index] = results[index] || { index, status: 'skipped' };
+    }
+
+    return summarizeBatch(results);
+  }
+
+  /**
+   * Send a batch through the bulk endpoint, or return `undefined` if the server does not have one
+   *
+   * Up to `concurrency` chunks are in flight at once. Items that fail because
+   * the API is unavailable are answered by the fallback LLM, as in query().
+   */
+  private async sendBulkQuery(
+    requests: SemanticQueryRequest[],
+    options: RequestOptions,
+    stopOnError: boolean,
+    concurrency: number
+  ): Promise<BatchItemResult[] | undefined> {
+    const results: BatchItemResult[] = new Array(requests.length);
+    let failed = false;
+    let unsupported = false;
+
+    await runWithConcurrency(chunk(requests, BULK_QUERY_CHUNK_SIZE), concurrency, async (requestChunk, chunkIndex) => {
+      const chunkResults = await this.sendBulkChunk(requestChunk, chunkIndex * BULK_QUERY_CHUNK_SIZE, options, concurrency);
+      if (!chunkResults) {
+        unsupported = true;
+        return;
+      }
+      chunkResults.forEach(result => {
+        results[result.index] = result;
+        failed = failed || result.status === 'rejected';
+      });
+    }, () => unsupported || (stopOnError && failed) || Boolean(options.signal?.aborted));
+
+    if (unsupported) {
+      return undefined;
+    }
+
+    for (let index = 0; index < requests.length; index++) {
+      results[index] = results[index] || { index, status: 'skipped' };
+    }
+    return results;
+  }
+
+  /**
+   * Send one chunk of a batch, or return `undefined` if the server has no bulk endpoint
+   */
+  private async sendBulkChunk(
+    requestChunk: SemanticQueryRequest[],
+    offset: number,
+    options: RequestOptions,
+    concurrency: number
+  ): Promise<BatchItemResult[] | undefined> {
+    const chunkResults: BatchItemResult[] = new Array(requestChunk.length);
+    const unavailable: Array<{ i: number; error: unknown }> = [];
+
+    // Invalid requests are rejected locally and never sent
+    const sendable: number[] = [];
+    requestChunk.forEach((request, i) => {
+      const errors = getQueryRequestErrors(request);
+      if (errors.length > 0) {
+        chunkResults[i] = {
+          index: offset + i,
+          status: 'rejected',
+          error: new VectorcacheValidationError('Invalid query request', { errors })
+        };
+      } else {
+        sendable.push(i);
+      }
+    });
+
+    const startTime = Date.now();
+
+    try {
+      const response = sendable.length === 0 ? { results: [] } : await this.makeRequest<{
+        results: Array<SemanticQueryResponse | { error: any }>
+      }>(
+        'POST',
+        '/v1/cache/query/batch',
+        { requests: sendable.map(i => this.toBulkItem(requestChunk[i], options)) },
+        options
+      );
+      if (sendable.length > 0) {
+        this.shared.bulkQuerySupported = true;
+      }
+
+      response.results.slice(0, sendable.length).forEach((item, j) => {
+        const i = sendable[j];
+        if ('error' in item) {
+          const error = createErrorFromStatus(item.error?.status || 500, item.error);
+          if (this.canFallBack(error)) {
+            unavailable.push({ i, error });
+          } else {
+            chunkResults[i] = { index: offset + i, status: 'rejected', error };
+          }
+          return;
+        }
+
+        try {
+          const checked = this.checkResponse(item, RESPONSE_SCHEMAS.semanticQuery, '/v1/cache/query/batch');
+          chunkResults[i] = {
+            index: offset + i,
+            status: 'fulfilled',
+            response: withCachePolicy(checked, this.cachePolicyFor(requestChunk[i], options))
+          };
+        } catch (error) {
+          chunkResults[i] = { index: offset + i, status: 'rejected', error: error as VectorcacheAPIError };
+        }
+      });
+    } catch (error) {
+      const status = error instanceof VectorcacheAPIError ? error.status : undefined;
+      if (this.shared.bulkQuerySupported === undefined && (status === 404 || status === 405)) {
+        this.log('info', 'Bulk query endpoint not available, falling back to individual queries');
+        this.shared.bulkQuerySupported = false;
+        return undefined;
+      }
+
+      const typedError = this.normalizeError(error, '/v1/cache/query/batch', 0);
+      sendable.forEach(i => {
+        if (this.canFallBack(typedError)) {
+          unavailable.push({ i, error: typedError });
+        } else {
+          chunkResults[i] = { index: offset + i, status: 'rejected', error: typedError };
+        }
+      });
+    }
+
+    await runWithConcurrency(unavailable, concurrency, async ({ i, error }) => {
+      try {
+        chunkResults[i] = { index: offset + i, status: 'fulfilled', response: await this.runFallback(requestChunk[i], error) };
+      } catch (fallbackError) {
+        chunkResults[i] = {
+          index: offset + i,
+          status: 'rejected',
+          error: this.normalizeError(fallbackError, '/v1/cache/query/batch', 0)
+        };
+      }
+    });
+
+    // The bulk endpoint may answer fewer items than it was sent
+    sendable.forEach(i => {
+      if (!chunkResults[i]) {
+        chunkResults[i] = {
+          index: offset + i,
+          status: 'rejected',
+          error: new VectorcacheSchemaError('Unexpected response from /v1/cache/query/batch: no result for this request', {
+            endpoint: '/v1/cache/query/batch'
+          })
+        };
+      }
+    });
+
+    // Record each sent item as query() would; locally rejected items never reach measure() there either
+    if (this.metricsRecorder) {
+      const wallTime = Date.now() - startTime;
+      sendable.forEach(i => {
+        const labels = this.metricLabels(requestChunk[i], this.resolveOptions(options, requestChunk[i]));
+        const result = chunkResults[i];
+        if (result.status === 'fulfilled') {
+          this.metricsRecorder!.recordResponse(labels, result.response, wallTime);
+        } else if (result.status === 'rejected') {
+          this.metricsRecorder!.recordError(labels, result.error);
+        }
+      });
+    }
+
+    return chunkResults;
+  }
+
+  /**
+   * Body of one bulk query item, with its own project and cache policy
+   */
+  private toBulkItem(request: SemanticQueryRequest, options: RequestOptions): SemanticQueryRequest {
+    const resolved = this.resolveOptions(options, request);
+    return { ...withProject(request, resolved), ...cachePolicyFields(this.cachePolicyFor(request, resolved)) };
+  }
+
+  /**
+   * The cache policy that applies to a query, or `undefined` if none is configured
+   */
+  private cachePolicyFor(request: SemanticQueryRequest, options?: RequestOptions): AppliedCachePolicy | undefined {
+    return resolveCachePolicy(options?.cachePolicy ?? this.cachePolicy, request);
+  }
+
+  /**
+   * Send a query to the configured backend
+   */
+  private async sendQuery(
+    request: SemanticQueryRequest,
+    options?: RequestOptions,
+    policy?: AppliedCachePolicy
+  ): Promise<SemanticQueryResponse> {
+    if (this.localBackend) {
+      return raceWithSignal(
+        this.localBackend.query(request, options?.projectId || LOCAL_PROJECT_ID, policy),
+        options?.signal
+      );
+    }
+
+    try {
+      if (this.encryptor) {
+        return await this.sendEncryptedQuery(request, options, policy);
+      }
+
+      return this.checkResponse(
+        await this.makeRequest<SemanticQueryResponse>(
+          'POST',
+          '/v1/cache/query',
+          { ...withProject(request, options), ...cachePolicyFields(policy) },
+          options
+        ),
+        RESPONSE_SCHEMAS.semanticQuery,
+        '/v1/cache/query'
+      );
+    } catch (error) {
+      if (!this.canFallBack(error)) {
+        throw error;
+      }
+      return this.runFallback(request, error);
+    }
+  }
+
+  /**
+   * Decrypt the response of a cache hit, checking that it belongs to the entry that was matched
+   */
+  private async decryptHit(
+    lookup: CacheLookupResponse,
+    request: SemanticQueryRequest,
+    options?: RequestOptions
+  ): Promise<string> {
+    const response = lookup.response!;
+    let queryText = requestToText(request);
+
+    // A similar hit was cached for another query, which the lookup does not return
+    if (lookup.cache_entry_id && isEncrypted(response) && !await this.encryptor!.isBoundTo(response, queryText)) {
+      const endpoint = `/v1/cache/entries/${encodeURIComponent(lookup.cache_entry_id)}`;
+      queryText = this.checkResponse(
+        await this.makeRequest<CacheEntry>('GET', endpoint, undefined, options),
+        RESPONSE_SCHEMAS.cacheEntry,
+        endpoint
+      ).query_text;
+    }
+    return this.encryptor!.decrypt(response, queryText);
+  }
+
+  /**
+   * Look up a query and answer misses with the caller's LLM, so the cache only ever holds ciphertext
+   */
+  private async sendEncryptedQuery(
+    request: SemanticQueryRequest,
+    options?: RequestOptions,
+    policy?: AppliedCachePolicy
+  ): Promise<SemanticQueryResponse> {
+    const startTime = Date.now();
+    const body = withProject(request, options);
+    let queryId: string | undefined;
+
+    if (!policy || canReadCache(policy.mode)) {
+      const lookup = this.checkResponse(
+        await this.makeRequest<CacheLookupResponse>(
+          'POST',
+          '/v1/cache/lookup',
+          {
+            ...withoutMetadata(body),
+            ...(policy?.similarity_threshold !== undefined && { similarity_threshold: policy.similarity_threshold })
+          },
+          options
+        ),
+        RESPONSE_SCHEMAS.cacheLookup,
+        '/v1/cache/lookup'
+      );
+
+      if (lookup.is_cache_hit) {
+        return {
+          response: await this.decryptHit(lookup, request, options),
+          is_cache_hit: true,
+          similarity_score: lookup.similarity_score,
+          response_time_ms: Date.now() - startTime,
+          estimated_cost: 0,
+          cache_entry_id: lookup.cache_entry_id,
+          query_id: lookup.query_id
+        };
+      }
+      queryId = lookup.query_id;
+    }
+
+    const result = await this.encryptor!.llm(request);
+    let cacheEntryId: string | undefined;
+
+    if (!policy || canWriteCache(policy.mode)) {
+      const storeRequest = await this.encryptor!.encryptStoreRequest({
+        ...body,
+        ...result,
+        ...(policy?.ttl_seconds !== undefined && { ttl_seconds: policy.ttl_seconds })
+      });
+      cacheEntryId = this.checkResponse(
+        await this.makeRequest<CacheStoreResponse>('POST', '/v1/cache/store', storeRequest, options, false),
+        RESPONSE_SCHEMAS.cacheStore,
+        '/v1/cache/store'
+      ).cache_entry_id;
+    }
+
+    return {
+      response: result.response,
+      is_cache_hit: false,
+      response_time_ms: Date.now() - startTime,
+      tokens_used: result.tokens_used,
+      estimated_cost: result.estimated_cost,
+      ...(cacheEntryId && { cache_entry_id: cacheEntryId }),
+      query_id: queryId || `query_${startTime.toString(36)}${Math.random().toString(36).slice(2, 10)}`
+    };
+  }
+
+  /**
+   * Reject metadata filters under encryption; the API only holds encrypted metadata, so they would match nothing
+   */
+  private checkMetadataFilter(field: string, filter?: Record<string, unknown>): void {
+    if (this.encryptor && filter !== undefined) {
+      throw new VectorcacheValidationError('Metadata filters are not supported with client-side encryption', {
+        errors: [{ field, message: 'cannot match encrypted metadata' }]
+      });
+    }
+  }
+
+  /**
+   * Decrypt the responses and metadata of entries when encryption is enabled
+   */
+  private async decryptEntries<T extends { response_text?: string; metadata?: Record<string, any> }>(
+    entries: T[]
+  ): Promise<T[]> {
+    const encryptor = this.encryptor;
+    return encryptor ? Promise.all(entries.map(entry => encryptor.decryptEntry(entry))) : entries;
+  }
+
+  /**
+   * Whether a failed query should be answered by the fallback LLM
+   */
+  private canFallBack(error: unknown): boolean {
+    return Boolean(this.fallback) && isAvailabilityError(error);
+  }
+
+  /**
+   * Answer a query with the fallback LLM, bypassing the cache
+   */
+  private async runFallback(request: SemanticQueryRequest, error: unknown): Promise<SemanticQueryResponse> {
+    this.log('warn', 'Vectorcache unavailable, calling the fallback LLM directly', { error: (error as Error).name });
+
+    const startTime = Date.now();
+    const result = await this.fallback!(request);
+
+    return {
+      response: result.response,
+      is_cache_hit: false,
+      response_time_ms: Date.now() - startTime,
+      tokens_used: result.tokens_used,
+      estimated_cost: result.estimated_cost,
+      query_id: `degraded_${startTime.toString(36)}${Math.random().toString(36).slice(2, 10)}`,
+      degraded: true
+    };
+  }
+
+  /**
+   * Pre-populate the cache from a dataset of prompts
+   *
+   * With `skipIfSimilarAbove`, prompts whose closest cached query is at least
+   * that similar are skipped without calling the LLM. The rest go through
+   * query(). Once the summed estimated cost reaches `budgetUsd` no new prompts
+   * are started; prompts already in flight still finish.
+   *
+   * @example
+   * ```typescript
+   * const result = await client.warmCache('last-month.jsonl', { budgetUsd: 20, skipIfSimilarAbove: 0.9 });
+   * console.log(`${result.warmed} prompts warmed for $${result.estimated_cost.toFixed(2)}`);
+   * ```
+   */
+  async warmCache(prompts: WarmCacheSource, options: WarmCacheOptions = {}): Promise<WarmCacheResult> {
+    const { concurrency = 5, budgetUsd, skipIfSimilarAbove, onProgress, ...requestOptions } = this.applyScope(options);
+    const result: WarmCacheResult = {
+      processed: 0,
+      warmed: 0,
+      cached: 0,
+      skipped: 0,
+      errors: 0,
+      estimated_cost: 0,
+      budget_exhausted: budgetUsd !== undefined && budgetUsd <= 0
+    };
+
+    const report = (request: SemanticQueryRequest, outcome: WarmCacheProgress['outcome'], error?: VectorcacheAPIError) => {
+      result.processed++;
+      if (outcome === 'failed') {
+        result.errors++;
+      } else {
+        result[outcome]++;
+      }
+      onProgress?.({ ...result, request, outcome, ...(error && { error }) });
+    };
+
+    await runIterableWithConcurrency(readWarmPrompts(prompts), concurrency, async request => {
+      throwIfAborted(requestOptions.signal);
+
+      try {
+        if (skipIfSimilarAbove !== undefined && await this.hasSimilarEntry(request, skipIfSimilarAbove, this.resolveOptions(requestOptions, request))) {
+          report(request, 'skipped');
+          return;
+        }
+
+        const response = await this.query(request, requestOptions);
+        result.estimated_cost += response.estimated_cost || 0;
+        if (budgetUsd !== undefined && result.estimated_cost >= budgetUsd) {
+          result.budget_exhausted = true;
+        }
+        report(request, response.is_cache_hit ? 'cached' : 'warmed');
+      } catch (error) {
+        if (error instanceof VectorcacheAbortError) {
+          throw error;
+        }
+        report(request, 'failed', this.normalizeError(error, '/v1/cache/query', 0));
+      }
+    }, () => result.budget_exhausted);
+
+    return result;
+  }
+
+  /**
+   * Whether the closest cached query is at least `threshold` similar to the request.
+   * A check the cache could not answer counts as "no", so the prompt is still warmed;
+   * an invalid request, e.g. one without a project, fails the prompt instead.
+   */
+  private async hasSimilarEntry(
+    request: SemanticQueryRequest,
+    threshold: number,
+    options: RequestOptions
+  ): Promise<boolean> {
+    try {
+      // Search with the request's own shape so conversations are compared as conversations
+      const page = await this.searchSimilar({
+        ...options,
+        query: request.query,
+        messages: request.messages,
+        context: request.context,
+        minSimilarity: threshold,
+        limit: 1
+      });
+      const best = page.entries[0]?.similarity;
+      return typeof best === 'number' && best >= threshold;
+    } catch (error) {
+      // A bad request fails every prompt alike; only an unreachable cache is worth warming through
+      if (error instanceof VectorcacheAbortError || error instanceof VectorcacheValidationError) {
+        throw error;
+      }
+      this.log('warn', 'Similarity check failed while warming the cache', { error: (error as Error).message });
+      return false;
+    }
+  }
+
+  /**
+   * Look up a cached response without calling the LLM on a miss
+   */
+  async lookup(request: SemanticQueryRequest, options?: RequestOptions): Promise<CacheLookupResponse> {
+    validateQueryRequest(request);
+    options = this.resolveOptions(options, request);
+    const redacted = this.piiRedactor ? await this.piiRedactor.redactQuery(request) : undefined;
+    const sent = redacted ? redacted.request : request;
+    const policy = this.cachePolicyFor(sent, options);
+
+    const response = await this.measure(sent, options, async () => {
+      // Prompts with PII under the bypass-cache mode, and queries the policy keeps from reading, are never looked up
+      if (redacted?.bypassCache || (policy && !canReadCache(policy.mode))) {
+        return withCachePolicy<CacheLookupResponse>({
+          is_cache_hit: false,
+          response_time_ms: 0,
+          query_id: `bypassed_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+        }, policy);
+      }
+
+      if (this.localBackend) {
+        return withCachePolicy(await raceWithSignal(
+          this.localBackend.lookup(sent, options?.projectId || LOCAL_PROJECT_ID, policy?.similarity_threshold),
+          options?.signal
+        ), policy);
+      }
+
+      // Metadata would otherwise reach the API in plaintext
+      const body = {
+        ...(this.encryptor ? withoutMetadata(withProject(sent, options)) : withProject(sent, options)),
+        ...(policy?.similarity_threshold !== undefined && { similarity_threshold: policy.similarity_threshold })
+      };
+      const result = withCachePolicy(this.checkResponse(
+        await this.makeRequest<CacheLookupResponse>('POST', '/v1/cache/lookup', body, options),
+        RESPONSE_SCHEMAS.cacheLookup,
+        '/v1/cache/lookup'
+      ), policy);
+
+      return this.encryptor && result.response !== undefined
+        ? { ...result, response: await this.decryptHit(result, sent, options) }
+        : result;
+    });
+
+    return redacted?.restore && response.response !== undefined
+      ? { ...response, response: redacted.restore(response.response) }
+      : response;
+  }
+
+  /**
+   * Store a response produced by your own LLM call
+   *
+   * Not retried unless the retry policy sets `retryNonIdempotent`.
+   */
+  async store(request: CacheStoreRequest, options?: RequestOptions): Promise<CacheStoreResponse> {
+    validateStoreRequest(request);
+    options = this.resolveOptions(options, request);
+    if (this.piiRedactor) {
+      const redacted = await this.piiRedactor.redactStore(request);
+      // Responses with PII under the bypass-cache mode are never written, not even masked
+      if (redacted.bypassCache) {
+        return { cache_entry_id: '', skipped: true };
+      }
+      request = redacted.request;
+    }
+
+    const policy = this.cachePolicyFor(request, options);
+    if (policy && !canWriteCache(policy.mode)) {
+      return { cache_entry_id: '', skipped: true, cache_policy: policy };
+    }
+
+    if (this.localBackend) {
+      return withCachePolicy(await raceWithSignal(
+        this.localBackend.store(request, options?.projectId || LOCAL_PROJECT_ID, policy?.ttl_seconds),
+        options?.signal
+      ), policy);
+    }
+
+    const body = {
+      ...withProject(request, options),
+      ...(policy?.ttl_seconds !== undefined && { ttl_seconds: policy.ttl_seconds })
+    };
+    return withCachePolicy(this.checkResponse(
+      await this.makeRequest<CacheStoreResponse>(
+        'POST',
+        '/v1/cache/store',
+        this.encryptor ? await this.encryptor.encryptStoreRequest(body) : body,
+        options,
+        false
+      ),
+      RESPONSE_SCHEMAS.cacheStore,
+      '/v1/cache/store'
+    ), policy);
+  }
+
+  /**
+   * Test cache workflow with debugging information
+   */
+  async testCache(request: CacheTestRequest, options?: RequestOptions): Promise<CacheTestResponse> {
+    options = this.resolveOptions(options);
+    request = { ...request, project_id: request?.project_id || options.projectId };
+    validateCacheTestRequest(request);
+
+    if (this.localBackend) {
+      throw new VectorcacheAPIError('testCache is not supported in local mode');
+    }
+    // The API answers misses itself and would store that answer in plaintext
+    if (this.encryptor) {
+      throw new VectorcacheAPIError('testCache is not supported with client-side encryption');
+    }
+
+    const redacted: RedactedRequest<CacheTestRequest> = this.piiRedactor
+      ? await this.piiRedactor.redactTest(request)
+      : { request, bypassCache: false };
+    const response = this.checkResponse(
+      await this.makeRequest<CacheTestResponse>('POST', '/v1/cache/test', redacted.request, options),
+      RESPONSE_SCHEMAS.cacheTest,
+      '/v1/cache/test'
+    );
+
+    return redacted.restore ? { ...response, response: redacted.restore(response.response) } : response;
+  }
+
+  /**
+   * Get cache statistics for a project
+   */
+  async getCacheStats(projectId?: string, options?: RequestOptions): Promise<CacheStatsResponse> {
+    options = this.resolveOptions(options);
+    const id = projectId || options.projectId || (this.localBackend && LOCAL_PROJECT_ID);
+    if (!id) {
+      throw new VectorcacheValidationError('Project ID is required');
+    }
+
+    if (this.localBackend) {
+      return raceWithSignal(this.localBackend.getCacheStats(id), options?.signal);
+    }
+
+    const endpoint = `/v1/cache/projects/${id}/stats`;
+    return this.checkResponse(
+      await this.makeRequest<CacheStatsResponse>('GET', endpoint, undefined, options),
+      RESPONSE_SCHEMAS.cacheStats,
+      endpoint
+    );
+  }
+
+  /**
+   * Clear cache entries
+   *
+   * Not retried unless the retry policy sets `retryNonIdempotent`.
+   */
+  async clearCache(request: ClearCacheRequest, options?: RequestOptions): Promise<ClearCacheResponse> {
+    validateClearCacheRequest(request);
+    options = this.resolveOptions(options);
+    if (!request.project_id && options.projectId) {
+      request = { ...request, project_id: options.projectId };
+    }
+
+    const response = this.localBackend
+      ? await raceWithSignal(this.localBackend.clearCache(request), options?.signal)
+      : this.checkResponse(
+        await this.makeRequest<ClearCacheResponse>('POST', '/v1/cache/clear', request, options, false),
+        RESPONSE_SCHEMAS.clearCache,
+        '/v1/cache/clear'
+      );
+
+    this.clearL1Cache();
+    return response;
+  }
+
+  /**
+   * Delete only the entries matching a filter: metadata conditions, model,
+   * semantic similarity to a query, age or expiry
+   *
+   * With `dryRun`, nothing is deleted and the matching entries are returned.
+   * Deletions are not retried unless the retry policy sets `retryNonIdempotent`.
+   *
+   * @example
+   * ```typescript
+   * const preview = await client.invalidate({ metadata: { source_doc: 'pricing-v3' } }, { dryRun: true });
+   * console.log(`${preview.entries_matched} entries depend on the old pricing page`);
+   * ```
+   */
+  async invalidate(request: InvalidateRequest, options: InvalidateOptions = {}): Promise<InvalidateResponse> {
+    validateInvalidateRequest(request);
+    this.checkMetadataFilter('metadata', request.metadata);
+    const { dryRun = false, ...requestOptions } = this.resolveOptions(options);
+    const projectId = request.project_id || requestOptions.projectId;
+    const similarTo = request.similar_to && this.piiRedactor
+      ? await this.piiRedactor.redactFilter(request.similar_to)
+      : request.similar_to;
+    const body = {
+      ...request,
+      ...(similarTo && { similar_to: similarTo }),
+      ...(projectId && { project_id: projectId }),
+      dry_run: dryRun
+    };
+
+    const response = this.localBackend
+      ? await raceWithSignal(this.localBackend.invalidate(body, dryRun), requestOptions.signal)
+      : this.checkResponse(
+        await this.makeRequest<InvalidateResponse>('POST', '/v1/cache/invalidate', body, requestOptions, dryRun),
+        RESPONSE_SCHEMAS.invalidate,
+        '/v1/cache/invalidate'
+      );
+
+    if (!dryRun) {
+      this.clearL1Cache();
+    }
+    return response.entries ? { ...response, entries: await this.decryptEntries(response.entries) } : response;
+  }
+
+  /**
+   * List the cache entries of a project, one page at a time
+   */
+  async listEntries(projectId?: string, options: ListEntriesOptions = {}): Promise<CacheEntryPage> {
+    validateListEntriesOptions(options);
+    this.checkMetadataFilter('filter.metadata', options.filter?.metadata);
 
-  constructor(config: VectorcacheConfig & { logLevel?: LogLevel }) {
-    if (!config.apiKey) {
-      throw new Error('API key is required');
+    options = this.resolveOptions(options);
+    const id = projectId || options.projectId || (this.localBackend && LOCAL_PROJECT_ID);
+    if (!id) {
+      throw new VectorcacheValidationError('Project ID is required');
+    }
+    if (options.filter?.query !== undefined && this.piiRedactor) {
+      options = { ...options, filter: await this.piiRedactor.redactFilter(options.filter) };
     }
 
-    this.apiKey = config.apiKey;
-    this.baseUrl = config.baseUrl || 'https://api.vectorcache.com';
-    this.defaultProjectId = config.projectId;
-    this.timeout = config.timeout || 30000; // 30 seconds default
-    this.logLevel = config.logLevel || 'warn';
+    if (this.localBackend) {
+      return raceWithSignal(this.localBackend.listEntries(id, options), options.signal);
+    }
+
+    const { filter = {} } = options;
+    const endpoint = `/v1/cache/projects/${id}/entries${toQueryString({
+      cursor: options.cursor,
+      limit: options.limit,
+      sort_by: options.sortBy,
+      sort_order: options.sortOrder,
+      query: filter.query,
+      expired: filter.expired,
+      metadata: filter.metadata && JSON.stringify(filter.metadata)
+    })}`;
+
+    const page = this.checkResponse(
+      await this.makeRequest<CacheEntryPage>('GET', endpoint, undefined, options),
+      RESPONSE_SCHEMAS.cacheEntryPage,
+      endpoint
+    );
+    return { ...page, entries: await this.decryptEntries(page.entries) };
   }
 
   /**
-   * Make a cached query to your LLM
+   * Iterate over every matching cache entry of a project, fetching pages as needed
+   *
+   * @example
+   * ```typescript
+   * for await (const entry of client.iterateEntries('project-id', { filter: { expired: false } })) {
+   *   console.log(entry.query_text, entry.hit_count);
+   * }
+   * ```
    */
-  async query(request: SemanticQueryRequest, options?: RequestOptions): Promise<SemanticQueryResponse> {
-    return this.makeRequest<SemanticQueryResponse>(
-      'POST',
-      '/v1/cache/query',
-      request,
-      options
-    );
+  async *iterateEntries(projectId?: string, options: ListEntriesOptions = {}): AsyncGenerator<CacheEntry> {
+    let cursor = options.cursor;
+
+    do {
+      const page = await this.listEntries(projectId, { ...options, cursor });
+      yield* page.entries;
+      cursor = page.next_cursor;
+    } while (cursor);
   }
 
   /**
-   * Test cache workflow with debugging information
+   * Get a single cache entry by ID
    */
-  async testCache(request: CacheTestRequest, options?: RequestOptions): Promise<CacheTestResponse> {
-    return this.makeRequest<CacheTestResponse>(
-      'POST',
-      '/v1/cache/test',
-      request,
-      options
-    );
+  async getEntry(id: string, options?: RequestOptions): Promise<CacheEntry> {
+    options = this.applyScope(options);
+    if (this.localBackend) {
+      return raceWithSignal(this.localBackend.getEntry(id, this.localProjectId(options)), options?.signal);
+    }
+
+    const endpoint = `/v1/cache/entries/${encodeURIComponent(id)}`;
+    const [entry] = await this.decryptEntries([this.checkResponse(
+      await this.makeRequest<CacheEntry>('GET', endpoint, undefined, options),
+      RESPONSE_SCHEMAS.cacheEntry,
+      endpoint
+    )]);
+    return entry;
   }
 
   /**
-   * Get cache statistics for a project
+   * Update the response, metadata or expiry of a cache entry
    */
-  async getCacheStats(projectId?: string, options?: RequestOptions): Promise<CacheStatsResponse> {
-    const id = projectId || options?.projectId || this.defaultProjectId;
+  async updateEntry(id: string, update: UpdateCacheEntryRequest, options?: RequestOptions): Promise<CacheEntry> {
+    validateUpdateEntryRequest(update);
+    options = this.applyScope(options);
+
+    const endpoint = `/v1/cache/entries/${encodeURIComponent(id)}`;
+    let body = update;
+    if (this.encryptor && (update.response_text !== undefined || update.metadata !== undefined)) {
+      // New values are bound to the entry's query, which the update does not carry
+      const current = this.checkResponse(
+        await this.makeRequest<CacheEntry>('GET', endpoint, undefined, options),
+        RESPONSE_SCHEMAS.cacheEntry,
+        endpoint
+      );
+      body = await this.encryptor.encryptEntry(update, current.query_text);
+    }
+
+    const entry = this.localBackend
+      ? await raceWithSignal(this.localBackend.updateEntry(id, update, this.localProjectId(options)), options?.signal)
+      : this.checkResponse(
+        await this.makeRequest<CacheEntry>('PATCH', endpoint, body, options),
+        RESPONSE_SCHEMAS.cacheEntry,
+        endpoint
+      );
+
+    // The L1 cache may still hold the old response
+    this.clearL1Cache();
+    return (await this.decryptEntries([entry]))[0];
+  }
+
+  /**
+   * Delete a single cache entry
+   */
+  async deleteEntry(id: string, options?: RequestOptions): Promise<DeleteCacheEntryResponse> {
+    options = this.applyScope(options);
+    const endpoint = `/v1/cache/entries/${encodeURIComponent(id)}`;
+    const response = this.localBackend
+      ? await raceWithSignal(this.localBackend.deleteEntry(id, this.localProjectId(options)), options?.signal)
+      : this.checkResponse(
+        await this.makeRequest<DeleteCacheEntryResponse>('DELETE', endpoint, undefined, options),
+        RESPONSE_SCHEMAS.deleteEntry,
+        endpoint
+      );
+
+    this.clearL1Cache();
+    return response;
+  }
+
+  /**
+   * Export the cache entries of a project as JSONL, one CacheEntry per line
+   *
+   * @example
+   * ```typescript
+   * await client.exportCache('prod-project', 'backup.jsonl', { includeEmbeddings: false });
+   * ```
+   */
+  async exportCache(
+    projectId: string | undefined,
+    destination: SnapshotDestination,
+    options: ExportCacheOptions = {}
+  ): Promise<ExportCacheResult> {
+    const { includeEmbeddings = true, ...listOptions } = options;
+    const entries = this.iterateEntries(projectId, listOptions);
+
+    async function* records(): AsyncGenerator<CacheSnapshotRecord> {
+      for await (const entry of entries) {
+        yield toSnapshotRecord(entry, includeEmbeddings);
+      }
+    }
+
+    return { entries_exported: await writeJsonl(records(), destination) };
+  }
+
+  /**
+   * Import a JSONL snapshot into a project, uploading it in chunks
+   *
+   * Entries are written to the target project whatever their original
+   * `project_id`. If an import is interrupted, pass the last reported
+   * `checkpoint` as `resumeFrom` to continue where it stopped.
+   */
+  async importCache(
+    projectId: string | undefined,
+    source: SnapshotSource,
+    options: ImportCacheOptions = {}
+  ): Promise<ImportCacheResult> {
+    options = this.resolveOptions(options);
+    const id = projectId || options.projectId || (this.localBackend && LOCAL_PROJECT_ID);
     if (!id) {
-      throw new VectorcacheAPIError('Project ID is required');
+      throw new VectorcacheValidationError('Project ID is required');
     }
 
-    return this.makeRequest<CacheStatsResponse>(
-      'GET',
-      `/v1/cache/projects/${id}/stats`,
-      undefined,
-      options
-    );
+    const { onConflict = 'skip', reembed = false, chunkSize = IMPORT_CHUNK_SIZE, resumeFrom = 0, onProgress } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > 1000) {
+      throw new VectorcacheValidationError('Invalid import options: chunkSize must be between 1 and 1000', {
+        errors: [{ field: 'chunkSize', message: 'must be between 1 and 1000' }]
+      });
+    }
+
+    const result: ImportCacheResult = { imported: 0, skipped: 0, checkpoint: resumeFrom };
+    let position = 0;
+    let pending: CacheSnapshotRecord[] = [];
+
+    const upload = async () => {
+      const entries = this.encryptor
+        ? await Promise.all(pending.map(record => this.encryptor!.encryptEntry(record, record.query_text)))
+        : pending;
+      const request: CacheImportRequest = { entries, on_conflict: onConflict, reembed };
+      const endpoint = `/v1/cache/projects/${id}/import`;
+
+      // Re-sending a chunk is harmless unless conflicts are errors
+      const response = this.localBackend
+        ? await raceWithSignal(this.localBackend.importEntries(request, id), options.signal)
+        : this.checkResponse(
+          await this.makeRequest<CacheImportResponse>('POST', endpoint, request, options, onConflict !== 'fail'),
+          RESPONSE_SCHEMAS.cacheImport,
+          endpoint
+        );
+
+      result.imported += response.imported;
+      result.skipped += response.skipped;
+      result.checkpoint += pending.length;
+      pending = [];
+      onProgress?.({ ...result });
+    };
+
+    for await (const record of readSnapshotRecords(source)) {
+      if (position++ < resumeFrom) {
+        continue;
+      }
+
+      pending.push(record);
+      if (pending.length >= chunkSize) {
+        await upload();
+      }
+    }
+
+    if (pending.length > 0) {
+      await upload();
+    }
+
+    this.clearL1Cache();
+    return result;
   }
 
   /**
-   * Clear cache entries
+   * Snapshot of the query metrics tracked by this client, split by project and model
+   *
+   * Use `formatPrometheus(client.metrics())` to expose them to Prometheus.
    */
-  async clearCache(request: ClearCacheRequest, options?: RequestOptions): Promise<ClearCacheResponse> {
-    return this.makeRequest<ClearCacheResponse>(
-      'POST',
-      '/v1/cache/clear',
-      request,
-      options
-    );
+  metrics(): MetricsSnapshot {
+    return this.metricsRecorder?.snapshot() || { series: [], collected_at: new Date().toISOString() };
+  }
+
+  /**
+   * Reset all metrics tracked by this client
+   */
+  resetMetrics(): void {
+    this.metricsRecorder?.reset();
+  }
+
+  /**
+   * Current state of the circuit breaker, or `undefined` if it is not enabled
+   */
+  getCircuitState(): CircuitState | undefined {
+    return this.circuitBreaker?.getState();
+  }
+
+  /**
+   * In local mode, write pending changes such as hit statistics to the persistence file
+   */
+  async flush(): Promise<void> {
+    await this.localBackend?.flush();
+  }
+
+  /**
+   * Drop all responses held in the in-process L1 cache
+   */
+  clearL1Cache(): void {
+    this.l1Cache?.clear();
   }
 
   /**
    * Find similar queries in cache
+   *
+   * For conversations, long prompts, filters or paging use searchSimilar().
    */
   async findSimilarQueries(
     query: string,
     projectId?: string,
     options?: RequestOptions
   ): Promise<SimilarQueriesResponse> {
-    const id = projectId || options?.projectId || this.defaultProjectId;
+    options = this.resolveOptions(options);
+    const id = projectId || options.projectId || (this.localBackend && LOCAL_PROJECT_ID);
+    if (!id) {
+      throw new VectorcacheValidationError('Project ID is required');
+    }
+
+    if (this.piiRedactor) {
+      query = (await this.piiRedactor.redactSearch({ query })).request.query!;
+    }
+
+    if (this.localBackend) {
+      return raceWithSignal(this.localBackend.findSimilarQueries(query, id), options?.signal);
+    }
+
+    const endpoint = `/v1/cache/projects/${id}/similar?query=${encodeURIComponent(query)}`;
+    const response = this.checkResponse(
+      await this.makeRequest<SimilarQueriesResponse>('GET', endpoint, undefined, options),
+      RESPONSE_SCHEMAS.similarQueries,
+      endpoint
+    );
+    return { ...response, similar_entries: await this.decryptEntries(response.similar_entries) };
+  }
+
+  /**
+   * Search the cache for entries similar to a query or conversation, one page at a time
+   *
+   * @example
+   * ```typescript
+   * const page = await client.searchSimilar({ messages, minSimilarity: 0.8, includeResponse: true });
+   * for (const entry of page.entries) {
+   *   console.log(entry.similarity.toFixed(3), entry.original_query, entry.response_text);
+   * }
+   * ```
+   */
+  async searchSimilar(options: SearchSimilarOptions): Promise<SimilarEntryPage> {
+    validateSearchSimilarOptions(options);
+    this.checkMetadataFilter('metadataFilter', options.metadataFilter);
+    const {
+      query,
+      messages,
+      context,
+      minSimilarity,
+      limit,
+      cursor,
+      metadataFilter,
+      includeResponse,
+      ...requestOptions
+    } = this.resolveOptions(options);
+
+    const id = requestOptions.projectId || (this.localBackend && LOCAL_PROJECT_ID);
     if (!id) {
-      throw new VectorcacheAPIError('Project ID is required');
+      throw new VectorcacheValidationError('Project ID is required');
+    }
+
+    const search = this.piiRedactor
+      ? (await this.piiRedactor.redactSearch({ query, messages, context })).request
+      : { query, messages, context };
+    const request: SimilarSearchRequest = {
+      query: search.query,
+      messages: search.messages,
+      context: search.context,
+      min_similarity: minSimilarity,
+      limit,
+      cursor,
+      metadata_filter: metadataFilter,
+      include_response: includeResponse
+    };
+
+    if (this.localBackend) {
+      return raceWithSignal(this.localBackend.searchSimilar(request, id), requestOptions.signal);
     }
 
-    return this.makeRequest<SimilarQueriesResponse>(
-      'GET',
-      `/v1/cache/projects/${id}/similar?query=${encodeURIComponent(query)}`,
-      undefined,
-      options
+    // A POST body keeps long prompts and conversations out of the URL
+    const endpoint = `/v1/cache/projects/${id}/similar`;
+    const page = this.checkResponse(
+      await this.makeRequest<SimilarEntryPage>('POST', endpoint, request, requestOptions),
+      RESPONSE_SCHEMAS.similarEntryPage,
+      endpoint
     );
+    return { ...page, entries: await this.decryptEntries(page.entries) };
   }
 
   /**
    * Check API health and connectivity
    */
-  async health(): Promise<{ status: string; timestamp: string }> {
-    return this.makeRequest<{ status: string; timestamp: string }>(
-      'GET',
+  async health(options?: RequestOptions): Promise<{ status: string; timestamp: string }> {
+    options = this.applyScope(options);
+    if (this.localBackend) {
+      return { status: 'healthy', timestamp: new Date().toISOString() };
+    }
+
+    return this.checkResponse(
+      await this.makeRequest<{ status: string; timestamp: string }>('GET', '/health', undefined, options),
+      RESPONSE_SCHEMAS.health,
       '/health'
     );
   }
 
+  /**
+   * Record hit/miss, latency and cost metrics for a query-like call
+   */
+  private async measure<T extends MeasuredResponse>(
+    request: SemanticQueryRequest,
+    options: RequestOptions | undefined,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    if (!this.metricsRecorder) {
+      return fn();
+    }
+
+    const labels = this.metricLabels(request, options);
+    const startTime = Date.now();
+
+    try {
+      const response = await fn();
+      this.metricsRecorder.recordResponse(labels, response, Date.now() - startTime);
+      return response;
+    } catch (error) {
+      this.metricsRecorder.recordError(labels, error);
+      throw error;
+    }
+  }
+
+  private metricLabels(request: SemanticQueryRequest, options?: RequestOptions): MetricLabels {
+    return {
+      project: options?.projectId || (this.localBackend ? LOCAL_PROJECT_ID : 'default'),
+      model: request.model || 'default'
+    };
+  }
+
+  /**
+   * Verify a response against its schema when strict mode is enabled
+   */
+  private checkResponse<T>(body: T, schema: ResponseSchema, endpoint: string): T {
+    if (this.strictResponses) {
+      validateResponse(body, schema, endpoint);
+    }
+    return body;
+  }
+
   /**
    * Make HTTP request with error handling and retries
    */
   private async makeRequest<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
     endpoint: string,
     body?: any,
-    options?: RequestOptions
+    options?: RequestOptions,
+    idempotent: boolean = true
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
+    let context = this.createRequestContext(method, endpoint, body, 1);
+    const span = this.tracer && startRequestSpan(this.tracer, method, context.url, endpoint, {
+      projectId: body?.project_id || options?.projectId,
+      model: body?.model
+    });
+
+    try {
+      const result = await this.withRetries(method, endpoint, options, idempotent, attempt => {
+        context = this.createRequestContext(method, endpoint, body, attempt);
+        return this.executeRequest<T>(context, options);
+      });
+      if (span) {
+        endRequestSpan(span, context.attempt, { body: result });
+      }
+      return result;
+    } catch (error) {
+      if (span) {
+        endRequestSpan(span, context.attempt, { error: error as VectorcacheAPIError });
+      }
+      return this.runErrorInterceptors<T>(error as VectorcacheAPIError, context);
+    }
+  }
+
+  /**
+   * Run a request through the circuit breaker and the resolved retry policy
+   */
+  private async withRetries<T>(
+    method: string,
+    endpoint: string,
+    options: RequestOptions | undefined,
+    idempotent: boolean,
+    attemptFn: (attempt: number) => Promise<T>
+  ): Promise<T> {
+    if (!this.circuitBreaker) {
+      return this.runAttempts(method, endpoint, options, idempotent, attemptFn);
+    }
+
+    await this.circuitBreaker.acquire();
+
+    try {
+      const result = await this.runAttempts(method, endpoint, options, idempotent, attemptFn);
+      this.circuitBreaker.recordSuccess();
+      return result;
+    } catch (error) {
+      this.circuitBreaker.recordFailure(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a request attempt under the resolved retry policy
+   */
+  private async runAttempts<T>(
+    method: string,
+    endpoint: string,
+    options: RequestOptions | undefined,
+    idempotent: boolean,
+    attemptFn: (attempt: number) => Promise<T>
+  ): Promise<T> {
+    const policy = resolveRetryPolicy(this.retry, options?.retry);
+    const maxAttempts = idempotent || policy.retryNonIdempotent ? Math.max(1, policy.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(options?.signal);
+
+      try {
+        return await attemptFn(attempt);
+      } catch (error) {
+        if (attempt >= maxAttempts || !isRetryableError(policy, error)) {
+          throw error;
+        }
+
+        const delay = computeRetryDelay(policy, attempt, error);
+        if (delay === undefined) {
+          throw error;
+        }
+
+        this.log('warn', `Retrying ${method} ${endpoint} in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxAttempts})`, {
+          error: (error as Error).name
+        });
+        policy.onRetry?.(error as Error, attempt, delay);
+
+        await sleep(delay, options?.signal);
+      }
+    }
+  }
+
+  /**
+   * Perform a single HTTP request attempt
+   */
+  private async executeRequest<T>(context: InterceptorRequest, options?: RequestOptions): Promise<T> {
+    const { method, url } = context;
     const timeout = options?.timeout || this.timeout;
 
-    const headers: Record<string, string> = {
-      'X-API-Key': this.apiKey,
-      'Content-Type': 'application/json',
-      'User-Agent': 'vectorcache-js/0.1.0'
-    };
+    await this.runRequestInterceptors(context);
+    throwIfAborted(options?.signal);
 
     const requestOptions: RequestInit = {
       method,
-      headers,
-      ...(body && { body: JSON.stringify(body) })
+      headers: context.headers,
+      ...(context.body && { body: JSON.stringify(context.body) })
     };
 
-    this.log('debug', `Making ${method} request to ${url}`, { body });
+    this.log('debug', `Making ${method} request to ${url}`, this.logBodies ? { body: context.body } : undefined);
 
-    try {
-      // Create timeout controller
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+    // Create timeout controller, also aborted by the caller's signal
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const unlinkSignal = linkAbortSignal(controller, options?.signal);
 
-      const response = await fetch(url, {
+    try {
+      const startTime = Date.now();
+      const response = await (this.fetchImpl || fetch)(url, {
         ...requestOptions,
         signal: controller.signal
       });
 
+      const responseBody = await this.parseResponse(url, response, context, startTime);
+
+      this.log('debug', `API request successful: ${response.status}`, this.logBodies ? responseBody : undefined);
+      return responseBody as T;
+
+    } catch (error) {
+      throw this.normalizeError(error, url, timeout, options?.signal);
+    } finally {
       clearTimeout(timeoutId);
+      unlinkSignal();
+    }
+  }
 
-      // Handle response
-      const responseText = await response.text();
-      let responseBody: any;
+  /**
+   * Read a JSON response body, throwing the matching error for non-2xx statuses
+   */
+  private async parseResponse(
+    url: string,
+    response: Response,
+    context?: InterceptorRequest,
+    startTime?: number
+  ): Promise<any> {
+    const responseText = await response.text();
+    let responseBody: any;
 
-      try {
-        responseBody = responseText ? JSON.parse(responseText) : {};
-      } catch {
-        responseBody = { message: responseText };
-      }
+    try {
+      responseBody = responseText ? JSON.parse(responseText) : {};
+    } catch {
+      responseBody = { message: responseText };
+    }
 
-      if (!response.ok) {
-        this.log('error', `API request failed: ${response.status} ${response.statusText}`, {
-          url,
-          status: response.status,
-          body: responseBody
-        });
-        throw createErrorFromResponse(response, responseBody);
-      }
+    if (context && startTime !== undefined) {
+      await this.runResponseInterceptors({
+        request: context,
+        status: response.status,
+        durationMs: Date.now() - startTime,
+        body: responseBody
+      });
+    }
 
-      this.log('debug', `API request successful: ${response.status}`, responseBody);
-      return responseBody as T;
+    if (!response.ok) {
+      this.log('error', `API request failed: ${response.status} ${response.statusText}`, {
+        url,
+        status: response.status,
+        ...(this.logBodies && { body: responseBody })
+      });
+      throw createErrorFromResponse(response, responseBody);
+    }
 
-    } catch (error) {
-      if (error instanceof VectorcacheAPIError) {
-        throw error;
+    return responseBody;
+  }
+
+  /**
+   * Convert fetch and stream failures into SDK errors
+   */
+  private normalizeError(error: unknown, url: string, timeout: number, signal?: AbortSignal): VectorcacheAPIError {
+    if (error instanceof VectorcacheAPIError) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.name === 'AbortError') {
+        return signal?.aborted
+          ? new VectorcacheAbortError()
+          : new VectorcacheTimeoutError(`Request timeout after ${timeout}ms`);
       }
 
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new VectorcacheTimeoutError(`Request timeout after ${timeout}ms`);
-        }
+      this.log('error', `Network error: ${error.message}`, { url, error: error.name });
+      return new VectorcacheNetworkError(`Network error: ${error.message}`);
+    }
+
+    return new VectorcacheAPIError('Unknown error occurred');
+  }
+
+  /**
+   * Build the mutable request description passed to interceptors
+   */
+  private createRequestContext(method: string, endpoint: string, body: any, attempt: number): InterceptorRequest {
+    return {
+      method,
+      endpoint,
+      url: `${this.baseUrl}${endpoint}`,
+      headers: this.buildHeaders(),
+      body,
+      attempt
+    };
+  }
+
+  private async runRequestInterceptors(context: InterceptorRequest): Promise<void> {
+    for (const interceptor of this.interceptors) {
+      await interceptor.onRequest?.(context);
+    }
+  }
+
+  private async runResponseInterceptors(context: InterceptorResponse): Promise<void> {
+    for (const interceptor of this.interceptors) {
+      await interceptor.onResponse?.(context);
+    }
+  }
+
+  /**
+   * Give error interceptors a chance to replace or swallow the final error.
+   * The first interceptor that returns a value other than `undefined`
+   * resolves the request with that value; throwing replaces the error.
+   */
+  private async runErrorInterceptors<T>(error: VectorcacheAPIError, context: InterceptorRequest): Promise<T> {
+    let current: unknown = error;
 
-        this.log('error', `Network error: ${error.message}`, { url, error: error.name });
-        throw new VectorcacheNetworkError(`Network error: ${error.message}`);
+    for (const interceptor of this.interceptors) {
+      if (!interceptor.onError) {
+        continue;
       }
 
-      throw new VectorcacheAPIError('Unknown error occurred');
+      try {
+        const result = await interceptor.onError(current as VectorcacheAPIError, context);
+        if (result !== undefined) {
+          return result as T;
+        }
+      } catch (replacement) {
+        current = replacement;
+      }
     }
+
+    throw current;
+  }
+
+  /**
+   * Headers sent with every API request
+   */
+  private buildHeaders(): Record<string, string> {
+    return {
+      'X-API-Key': this.apiKey,
+      'Content-Type': 'application/json',
+      'User-Agent': 'vectorcache-js/0.1.0'
+    };
   }
 
   /**
    * Internal logging method
    */
-  private log(level: LogLevel, message: string, data?: any): void {
+  private log(level: Exclude<LogLevel, 'none'>, message: string, data?: any): void {
     const levels: Record<LogLevel, number> = {
       debug: 0,
       info: 1,
@@ -217,16 +1927,86 @@ export class VectorcacheClient {
       none: 4
     };
 
-    if (levels[level] >= levels[this.logLevel]) {
-      const timestamp = new Date().toISOString();
-      const prefix = `[${timestamp}] [Vectorcache] [${level.toUpperCase()}]`;
+    if (levels[level] < levels[this.logLevel]) {
+      return;
+    }
 
-      if (data) {
-        console.log(`${prefix} ${message}`, data);
-      } else {
-        console.log(`${prefix} ${message}`);
+    // Bypassed prompts and model answers can still contain PII
+    if (data && this.piiRedactor) {
+      data = this.piiRedactor.scrub(data);
+    }
+
+    if (this.logger) {
+      this.logger[level](message, data);
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    const prefix = `[${timestamp}] [Vectorcache] [${level.toUpperCase()}]`;
+
+    if (data) {
+      console.log(`${prefix} ${message}`, data);
+    } else {
+      console.log(`${prefix} ${message}`);
+    }
+  }
+
+  /**
+   * Project whose entries a local-mode call may touch
+   */
+  private localProjectId(options?: RequestOptions): string {
+    return options?.projectId || this.shared.defaultProjectId || LOCAL_PROJECT_ID;
+  }
+
+  /**
+   * The caller's options on top of the view's scoped options
+   */
+  private applyScope<T extends RequestOptions>(options?: T): T {
+    const scoped: Record<string, unknown> = { ...this.scope };
+
+    for (const [key, value] of Object.entries(options || {})) {
+      if (value !== undefined) {
+        scoped[key] = value;
       }
     }
+
+    return scoped as T;
+  }
+
+  /**
+   * Scoped options with the project pinned: explicit or scoped project,
+   * then the project resolver, then the default project
+   */
+  private resolveOptions<T extends RequestOptions>(options?: T, request?: SemanticQueryRequest): T {
+    const scoped = this.applyScope(options);
+    const projectId = scoped.projectId || (request && this.resolveProject?.(request)) || this.shared.defaultProjectId;
+
+    return projectId ? { ...scoped, projectId } : scoped;
+  }
+
+  /**
+   * Return a view of this client whose calls default to the given options
+   *
+   * The view shares the connection settings, default project, L1 cache, metrics
+   * and circuit breaker of this client. Options passed to a call still take precedence.
+   *
+   * @example
+   * ```typescript
+   * const tenant = client.withOptions({ projectId: req.tenantId, timeout: 5000 });
+   * await tenant.query({ query: req.body.prompt });
+   * ```
+   */
+  withOptions(options: RequestOptions): VectorcacheClient {
+    const view = Object.create(this) as VectorcacheClient;
+    Object.defineProperty(view, 'scope', { value: Object.freeze(this.applyScope(options)) });
+    return view;
+  }
+
+  /**
+   * Return a view of this client bound to a project
+   */
+  forProject(projectId: string): VectorcacheClient {
+    return this.withOptions({ projectId });
   }
 
   /**
@@ -235,15 +2015,19 @@ export class VectorcacheClient {
   getConfig(): Partial<VectorcacheConfig> {
     return {
       baseUrl: this.baseUrl,
-      projectId: this.defaultProjectId,
-      timeout: this.timeout
+      projectId: this.scope.projectId || this.shared.defaultProjectId,
+      timeout: this.scope.timeout || this.timeout,
+      retry: this.scope.retry ?? this.retry
     };
   }
 
   /**
    * Update default project ID
+   *
+   * @deprecated This changes the project for every caller sharing the
+   * client; use `forProject()` for a per-tenant view instead.
    */
   setDefaultProjectId(projectId: string): void {
-    (this as any).defaultProjectId = projectId;
+    this.shared.defaultProjectId = projectId;
   }
 }
\ No newline at end of file
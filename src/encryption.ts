@@ -0,0 +1,198 @@
+/**
+ * Client-side encryption for Vectorcache SDK
+ * Encrypts cached responses and metadata with AES-256-GCM under customer-held keys
+ */
+
+import { CacheStoreRequest, EncryptionKey, EncryptionOptions, LLMProvider } from './types';
+import { VectorcacheDecryptionError } from './errors';
+import { requestToText } from './local-backend';
+
+/** Prefix of encrypted values: `vcenc:v1:<key id>:<query binding>:<iv>:<ciphertext and tag>` */
+const PREFIX = 'vcenc:v1:';
+
+/** Metadata field holding the encrypted metadata object */
+const ENCRYPTED_METADATA_FIELD = '_vcenc';
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** What an encrypted value holds, so a metadata ciphertext cannot pass as a response */
+type Purpose = 'response' | 'metadata';
+
+/** Entry fields that carry the query text an encrypted value is bound to */
+interface EncryptableEntry {
+  query_text?: string;
+  original_query?: string;
+  response_text?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Short hash of the query text of an entry; authenticated along with the key ID
+ */
+async function queryBinding(queryText: string): Promise<string> {
+  const { createHash } = await import('crypto');
+  return createHash('sha256').update(queryText).digest('base64').slice(0, 22);
+}
+
+function toKeyBytes(key: EncryptionKey): Buffer {
+  const bytes = typeof key.key === 'string' ? Buffer.from(key.key, 'base64') : Buffer.from(key.key);
+  if (bytes.length !== 32) {
+    throw new Error(`Encryption key ${key.id} must be 32 bytes`);
+  }
+  return bytes;
+}
+
+/**
+ * Whether a value was produced by `CacheEncryptor.encrypt`
+ */
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+export class CacheEncryptor {
+  readonly llm: LLMProvider;
+  private readonly keys = new Map<string, Buffer>();
+  private readonly activeKeyId: string;
+  private readonly allowPlaintext: boolean;
+
+  constructor(options: EncryptionOptions) {
+    if (!options.keys || options.keys.length === 0) {
+      throw new Error('Encryption requires at least one key');
+    }
+    if (typeof options.llm !== 'function') {
+      throw new Error('Encryption requires an llm function');
+    }
+
+    for (const key of options.keys) {
+      if (!key.id || key.id.includes(':')) {
+        throw new Error(`Invalid encryption key ID: ${key.id}`);
+      }
+      this.keys.set(key.id, toKeyBytes(key));
+    }
+
+    this.activeKeyId = options.activeKeyId ?? options.keys[0].id;
+    if (!this.keys.has(this.activeKeyId)) {
+      throw new Error(`Unknown active encryption key: ${this.activeKeyId}`);
+    }
+    this.llm = options.llm;
+    this.allowPlaintext = options.allowPlaintext ?? false;
+  }
+
+  /**
+   * Encrypt a value of the entry for `queryText` with the active key
+   */
+  async encrypt(text: string, queryText: string, purpose: Purpose = 'response'): Promise<string> {
+    const { createCipheriv, randomBytes } = await import('crypto');
+    const binding = await queryBinding(queryText);
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.keys.get(this.activeKeyId)!, iv);
+    // A ciphertext cannot be relabelled with another key, query or purpose
+    cipher.setAAD(Buffer.from(`${this.activeKeyId}:${purpose}:${binding}`));
+    const data = Buffer.concat([cipher.update(text, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+
+    return `${PREFIX}${this.activeKeyId}:${binding}:${iv.toString('base64')}:${data.toString('base64')}`;
+  }
+
+  /**
+   * Whether an encrypted value was produced for the entry of `queryText`
+   */
+  async isBoundTo(value: string, queryText: string): Promise<boolean> {
+    return isEncrypted(value) && value.slice(PREFIX.length).split(':')[1] === await queryBinding(queryText);
+  }
+
+  /**
+   * Decrypt a value with the key named in it
+   *
+   * With `queryText`, the value must belong to the entry for that query, so the
+   * API cannot move ciphertexts between entries. Plaintext values throw unless
+   * `allowPlaintext` is set.
+   */
+  async decrypt(value: string, queryText?: string, purpose: Purpose = 'response'): Promise<string> {
+    if (!isEncrypted(value)) {
+      if (this.allowPlaintext) {
+        return value;
+      }
+      throw new VectorcacheDecryptionError('Expected an encrypted value, but the cache returned plaintext');
+    }
+
+    const [keyId, binding, iv, data] = value.slice(PREFIX.length).split(':');
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new VectorcacheDecryptionError(`No decryption key with ID ${keyId}`, keyId);
+    }
+    if (queryText !== undefined && binding !== await queryBinding(queryText)) {
+      throw new VectorcacheDecryptionError(`A value encrypted with key ${keyId} belongs to another cache entry`, keyId);
+    }
+
+    const { createDecipheriv } = await import('crypto');
+    try {
+      const bytes = Buffer.from(data, 'base64');
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+      decipher.setAAD(Buffer.from(`${keyId}:${purpose}:${binding}`));
+      decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+      return Buffer.concat([decipher.update(bytes.subarray(0, bytes.length - TAG_BYTES)), decipher.final()]).toString('utf8');
+    } catch {
+      throw new VectorcacheDecryptionError(`Could not decrypt a value encrypted with key ${keyId}`, keyId);
+    }
+  }
+
+  /**
+   * Encrypt the response and metadata of a store request
+   */
+  async encryptStoreRequest<T extends CacheStoreRequest>(request: T): Promise<T> {
+    const queryText = requestToText(request);
+
+    return {
+      ...request,
+      response: await this.encrypt(request.response, queryText),
+      ...(request.metadata !== undefined && { metadata: await this.encryptMetadata(request.metadata, queryText) })
+    };
+  }
+
+  /**
+   * Encrypt the response and metadata of the entry for `queryText`, leaving values that are already encrypted
+   */
+  async encryptEntry<T extends EncryptableEntry>(entry: T, queryText: string): Promise<T> {
+    const { response_text: responseText, metadata } = entry;
+
+    return {
+      ...entry,
+      ...(responseText !== undefined && !isEncrypted(responseText) && {
+        response_text: await this.encrypt(responseText, queryText)
+      }),
+      ...(metadata !== undefined && !isEncrypted(metadata[ENCRYPTED_METADATA_FIELD]) && {
+        metadata: await this.encryptMetadata(metadata, queryText)
+      })
+    };
+  }
+
+  /**
+   * Decrypt the response and metadata of an entry, checking they belong to its query
+   */
+  async decryptEntry<T extends EncryptableEntry>(entry: T): Promise<T> {
+    const queryText = entry.query_text ?? entry.original_query;
+
+    return {
+      ...entry,
+      ...(entry.response_text !== undefined && { response_text: await this.decrypt(entry.response_text, queryText) }),
+      ...(entry.metadata !== undefined && { metadata: await this.decryptMetadata(entry.metadata, queryText) })
+    };
+  }
+
+  private async encryptMetadata(metadata: Record<string, any>, queryText: string): Promise<Record<string, any>> {
+    return { [ENCRYPTED_METADATA_FIELD]: await this.encrypt(JSON.stringify(metadata), queryText, 'metadata') };
+  }
+
+  private async decryptMetadata(metadata: Record<string, any>, queryText?: string): Promise<Record<string, any>> {
+    const value = metadata[ENCRYPTED_METADATA_FIELD];
+    if (isEncrypted(value)) {
+      return JSON.parse(await this.decrypt(value, queryText, 'metadata'));
+    }
+    // An empty object is how the API reports an entry stored without metadata
+    if (Object.keys(metadata).length === 0 || this.allowPlaintext) {
+      return metadata;
+    }
+    throw new VectorcacheDecryptionError('Expected encrypted metadata, but the cache returned plaintext');
+  }
+}
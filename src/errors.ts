@@ -47,6 +47,20 @@ export class VectorcacheValidationError extends VectorcacheAPIError {
   }
 }
 
+export class VectorcacheNotFoundError extends VectorcacheAPIError {
+  constructor(message: string = 'Resource not found', details?: any) {
+    super(message, 404, 'NOT_FOUND', details);
+    this.name = 'VectorcacheNotFoundError';
+  }
+}
+
+export class VectorcacheSchemaError extends VectorcacheAPIError {
+  constructor(message: string, details?: any) {
+    super(message, undefined, 'SCHEMA_ERROR', details);
+    this.name = 'VectorcacheSchemaError';
+  }
+}
+
 export class VectorcacheNetworkError extends VectorcacheAPIError {
   constructor(message: string = 'Network error occurred') {
     super(message, undefined, 'NETWORK_ERROR');
@@ -61,6 +75,37 @@ export class VectorcacheTimeoutError extends VectorcacheAPIError {
   }
 }
 
+export class VectorcacheAbortError extends VectorcacheAPIError {
+  constructor(message: string = 'Request was aborted') {
+    super(message, undefined, 'ABORT_ERROR');
+    this.name = 'VectorcacheAbortError';
+  }
+}
+
+export class VectorcacheCircuitOpenError extends VectorcacheAPIError {
+  constructor(message: string = 'Circuit breaker is open; Vectorcache API calls are paused', details?: any) {
+    super(message, undefined, 'CIRCUIT_OPEN', details);
+    this.name = 'VectorcacheCircuitOpenError';
+  }
+}
+
+export class VectorcacheReplayError extends VectorcacheAPIError {
+  constructor(message: string, details?: any) {
+    super(message, undefined, 'NO_RECORDING', details);
+    this.name = 'VectorcacheReplayError';
+  }
+}
+
+export class VectorcacheDecryptionError extends VectorcacheAPIError {
+  public readonly keyId?: string;
+
+  constructor(message: string, keyId?: string) {
+    super(message, undefined, 'DECRYPTION_FAILED', keyId ? { keyId } : undefined);
+    this.name = 'VectorcacheDecryptionError';
+    this.keyId = keyId;
+  }
+}
+
 export class VectorcacheServerError extends VectorcacheAPIError {
   constructor(message: string = 'Internal server error', status: number = 500) {
     super(message, status, 'SERVER_ERROR');
@@ -75,7 +120,24 @@ export function createErrorFromResponse(
   response: Response,
   responseBody?: any
 ): VectorcacheAPIError {
-  const { status, statusText } = response;
+  const retryAfter = response.headers?.get('Retry-After');
+  return createErrorFromStatus(
+    response.status,
+    responseBody,
+    response.statusText,
+    retryAfter ? parseInt(retryAfter, 10) : undefined
+  );
+}
+
+/**
+ * Factory function to create appropriate error from a status code and error body
+ */
+export function createErrorFromStatus(
+  status: number,
+  responseBody?: any,
+  statusText?: string,
+  retryAfter?: number
+): VectorcacheAPIError {
   const message = responseBody?.message || responseBody?.detail || statusText || 'Unknown error';
 
   switch (status) {
@@ -84,14 +146,12 @@ export function createErrorFromResponse(
     case 401:
     case 403:
       return new VectorcacheAuthenticationError(message);
+    case 404:
+      return new VectorcacheNotFoundError(message, responseBody);
     case 408:
       return new VectorcacheTimeoutError(message);
     case 429:
-      const retryAfter = response.headers.get('Retry-After');
-      return new VectorcacheRateLimitError(
-        message,
-        retryAfter ? parseInt(retryAfter, 10) : undefined
-      );
+      return new VectorcacheRateLimitError(message, retryAfter ?? responseBody?.retry_after);
     case 500:
     case 502:
     case 503:
@@ -22,6 +22,13 @@ export { VectorcacheClient } from './client';
 
 export * from './types';
 export * from './errors';
+export { DEFAULT_RETRY_POLICY } from './retry';
+export { formatPrometheus } from './metrics';
+export type { FieldError } from './validation';
+export type { SnapshotDestination, SnapshotSource } from './snapshot';
+export type { WarmCacheSource } from './warm';
+export * from './openai';
+export * from './anthropic';
 
 // Default export for convenience
 export { VectorcacheClient as default } from './client';
\ No newline at end of file
@@ -0,0 +1,75 @@
+/**
+ * In-process L1 cache for Vectorcache SDK
+ */
+
+import { L1CacheOptions, SemanticQueryRequest, SemanticQueryResponse } from './types';
+
+interface L1Entry {
+  response: SemanticQueryResponse;
+  expiresAt: number;
+}
+
+/**
+ * Build a stable cache key from the parts of a request that affect the response
+ */
+export function normalizeQueryKey(request: SemanticQueryRequest): string {
+  const normalizeText = (text?: string) => (text === undefined ? null : text.trim().replace(/\s+/g, ' '));
+
+  return JSON.stringify([
+    normalizeText(request.query),
+    request.messages?.map(message => [message.role, normalizeText(message.content)]) ?? null,
+    normalizeText(request.context),
+    request.model ?? null,
+    request.temperature ?? null,
+    request.max_tokens ?? null
+  ]);
+}
+
+/**
+ * Size-capped LRU with per-entry TTL for exact-match query responses
+ */
+export class L1Cache {
+  private readonly entries = new Map<string, L1Entry>();
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+
+  constructor(options: L1CacheOptions = {}) {
+    this.maxEntries = options.maxEntries || 1000;
+    this.ttlMs = options.ttlMs || 60000; // 1 minute default
+  }
+
+  get(key: string): SemanticQueryResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.response;
+  }
+
+  set(key: string, response: SemanticQueryResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,608 @@
+/**
+ * Offline local backend for Vectorcache SDK
+ * Semantic cache backed by an in-memory vector index, optionally persisted to a file
+ */
+
+import {
+  AppliedCachePolicy,
+  CacheEntry,
+  CacheEntryPage,
+  CacheImportRequest,
+  CacheImportResponse,
+  CacheLookupResponse,
+  CacheStatsResponse,
+  CacheStoreRequest,
+  CacheStoreResponse,
+  ClearCacheRequest,
+  ClearCacheResponse,
+  DeleteCacheEntryResponse,
+  InvalidateRequest,
+  InvalidateResponse,
+  ListEntriesOptions,
+  LocalBackendOptions,
+  MetadataCondition,
+  SemanticQueryRequest,
+  SemanticQueryResponse,
+  SimilarEntry,
+  SimilarEntryPage,
+  SimilarQueriesResponse,
+  SimilarSearchRequest,
+  UpdateCacheEntryRequest
+} from './types';
+
+import { VectorcacheAPIError, VectorcacheNotFoundError } from './errors';
+
+interface StoredEntry {
+  entry: CacheEntry;
+  /** Tokens spent producing the response, credited to tokens_saved on every hit */
+  tokens: number;
+  /** Cost of producing the response, credited to cost_saved on every hit */
+  cost: number;
+}
+
+interface PersistedIndex {
+  version: 1;
+  entries: StoredEntry[];
+  hitSimilarityTotals: Record<string, number>;
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new VectorcacheAPIError(`Embedding dimensions do not match (${a.length} vs ${b.length})`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Text that is embedded for a request: the query or the flattened messages
+ */
+export function requestToText(request: SemanticQueryRequest): string {
+  if (request.messages && request.messages.length > 0) {
+    return request.messages.map(message => `${message.role}: ${message.content}`).join('\n');
+  }
+
+  return request.query || '';
+}
+
+/**
+ * Whether entry metadata meets every condition of a metadata filter
+ */
+export function matchesMetadata(
+  metadata: Record<string, any> | undefined,
+  filter: Record<string, MetadataCondition>
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata?.[key];
+
+    if (condition !== null && typeof condition === 'object') {
+      if ('$exists' in condition) {
+        return (value !== undefined) === condition.$exists;
+      }
+      if ('$in' in condition) {
+        return condition.$in.includes(value);
+      }
+      return value === condition.$eq;
+    }
+
+    return value === condition;
+  });
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export class LocalBackend {
+  private entries: StoredEntry[] = [];
+  private hitSimilarityTotals: Record<string, number> = {};
+  private loaded?: Promise<void>;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private queuedWrite?: Promise<void>;
+  private persistTimer?: ReturnType<typeof setTimeout>;
+
+  private readonly similarityThreshold: number;
+  private readonly ttlMs: number;
+
+  constructor(private readonly options: LocalBackendOptions) {
+    if (typeof options.embed !== 'function') {
+      throw new Error('Local mode requires an embed function');
+    }
+    if (typeof options.llm !== 'function') {
+      throw new Error('Local mode requires an llm function');
+    }
+
+    this.similarityThreshold = options.similarityThreshold ?? 0.85;
+    this.ttlMs = options.ttlMs || 7 * 24 * 60 * 60 * 1000; // 7 days default
+  }
+
+  async query(request: SemanticQueryRequest, projectId: string, policy?: AppliedCachePolicy): Promise<SemanticQueryResponse> {
+    const startTime = Date.now();
+    const mode = policy?.mode || 'read-write';
+    const lookup = mode === 'read-write' || mode === 'read-only'
+      ? await this.lookup(request, projectId, policy?.similarity_threshold)
+      : undefined;
+
+    if (lookup?.is_cache_hit) {
+      return {
+        response: lookup.response!,
+        is_cache_hit: true,
+        similarity_score: lookup.similarity_score,
+        response_time_ms: Date.now() - startTime,
+        estimated_cost: 0,
+        cache_entry_id: lookup.cache_entry_id,
+        query_id: lookup.query_id
+      };
+    }
+
+    const result = await this.options.llm(request);
+    if (mode === 'read-write' || mode === 'write-only') {
+      await this.store({ ...request, ...result }, projectId, policy?.ttl_seconds);
+    }
+
+    return {
+      response: result.response,
+      is_cache_hit: false,
+      response_time_ms: Date.now() - startTime,
+      tokens_used: result.tokens_used,
+      estimated_cost: result.estimated_cost,
+      query_id: lookup?.query_id || generateId('query')
+    };
+  }
+
+  async lookup(request: SemanticQueryRequest, projectId: string, similarityThreshold?: number): Promise<CacheLookupResponse> {
+    await this.load();
+    const startTime = Date.now();
+    const embedding = await this.options.embed(requestToText(request));
+    const now = Date.now();
+
+    let best: StoredEntry | undefined;
+    let bestScore = -1;
+
+    for (const stored of this.entries) {
+      const { entry } = stored;
+      if (entry.project_id !== projectId || Date.parse(entry.expires_at) <= now) {
+        continue;
+      }
+      if ((entry.query_context || undefined) !== (request.context || undefined)) {
+        continue;
+      }
+
+      const score = cosineSimilarity(embedding, entry.embedding);
+      if (score >= (similarityThreshold ?? entry.similarity_threshold) && score > bestScore) {
+        best = stored;
+        bestScore = score;
+      }
+    }
+
+    if (!best) {
+      return {
+        is_cache_hit: false,
+        response_time_ms: Date.now() - startTime,
+        query_id: generateId('query')
+      };
+    }
+
+    best.entry.hit_count += 1;
+    best.entry.tokens_saved += best.tokens;
+    best.entry.cost_saved += best.cost;
+    best.entry.last_hit_at = new Date(now).toISOString();
+    this.hitSimilarityTotals[projectId] = (this.hitSimilarityTotals[projectId] || 0) + bestScore;
+    this.persistSoon();
+
+    return {
+      is_cache_hit: true,
+      response: best.entry.response_text,
+      similarity_score: bestScore,
+      cache_entry_id: best.entry.id,
+      response_time_ms: Date.now() - startTime,
+      query_id: generateId('query')
+    };
+  }
+
+  async store(request: CacheStoreRequest, projectId: string, ttlSeconds?: number): Promise<CacheStoreResponse> {
+    await this.load();
+    const text = requestToText(request);
+    const embedding = await this.options.embed(text);
+    const now = Date.now();
+
+    const entry: CacheEntry = {
+      id: generateId('entry'),
+      project_id: projectId,
+      query_text: text,
+      query_context: request.context,
+      response_text: request.response,
+      embedding,
+      similarity_threshold: this.similarityThreshold,
+      hit_count: 0,
+      tokens_saved: 0,
+      cost_saved: 0,
+      metadata: request.metadata,
+      model: request.model,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + (ttlSeconds !== undefined ? ttlSeconds * 1000 : this.ttlMs)).toISOString()
+    };
+
+    this.entries.push({ entry, tokens: request.tokens_used || 0, cost: request.estimated_cost || 0 });
+    await this.persist();
+
+    return { cache_entry_id: entry.id };
+  }
+
+  async findSimilarQueries(query: string, projectId: string, limit: number = 10): Promise<SimilarQueriesResponse> {
+    await this.load();
+    const embedding = await this.options.embed(query);
+    const now = Date.now();
+
+    const similarEntries: SimilarEntry[] = this.entries
+      .filter(({ entry }) => entry.project_id === projectId && Date.parse(entry.expires_at) > now)
+      .map(({ entry }) => ({
+        id: entry.id,
+        original_query: entry.query_text,
+        similarity: cosineSimilarity(embedding, entry.embedding),
+        created_at: entry.created_at
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return {
+      query,
+      similar_entries: similarEntries.slice(0, limit),
+      total_found: similarEntries.length
+    };
+  }
+
+  async searchSimilar(request: SimilarSearchRequest, projectId: string): Promise<SimilarEntryPage> {
+    await this.load();
+    const embedding = await this.options.embed(requestToText(request));
+    const now = Date.now();
+    const { min_similarity = 0, limit = 10, metadata_filter = {} } = request;
+
+    const matching: SimilarEntry[] = this.entries
+      .filter(({ entry }) =>
+        entry.project_id === projectId &&
+        Date.parse(entry.expires_at) > now &&
+        (request.context === undefined || entry.query_context === request.context) &&
+        matchesMetadata(entry.metadata, metadata_filter)
+      )
+      .map(({ entry }) => ({
+        id: entry.id,
+        original_query: entry.query_text,
+        similarity: cosineSimilarity(embedding, entry.embedding),
+        created_at: entry.created_at,
+        ...(request.include_response && { response_text: entry.response_text }),
+        ...(entry.metadata && { metadata: entry.metadata })
+      }))
+      .filter(entry => entry.similarity >= min_similarity)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    // The cursor is the offset of the next page
+    const offset = request.cursor ? parseInt(request.cursor, 10) || 0 : 0;
+    const end = offset + limit;
+
+    return {
+      entries: matching.slice(offset, end),
+      total_found: matching.length,
+      ...(end < matching.length && { next_cursor: String(end) })
+    };
+  }
+
+  async getCacheStats(projectId: string): Promise<CacheStatsResponse> {
+    await this.load();
+    const now = Date.now();
+    const projectEntries = this.entries.filter(({ entry }) => entry.project_id === projectId);
+
+    let activeEntries = 0;
+    let totalHits = 0;
+    let totalTokensSaved = 0;
+    let totalCostSaved = 0;
+
+    for (const { entry } of projectEntries) {
+      if (Date.parse(entry.expires_at) > now) {
+        activeEntries++;
+      }
+      totalHits += entry.hit_count;
+      totalTokensSaved += entry.tokens_saved;
+      totalCostSaved += entry.cost_saved;
+    }
+
+    return {
+      project_id: projectId,
+      total_entries: projectEntries.length,
+      active_entries: activeEntries,
+      expired_entries: projectEntries.length - activeEntries,
+      total_hits: totalHits,
+      total_tokens_saved: totalTokensSaved,
+      total_cost_saved: totalCostSaved,
+      avg_similarity_score: totalHits > 0 ? (this.hitSimilarityTotals[projectId] || 0) / totalHits : 0,
+      cache_size_mb: JSON.stringify(projectEntries).length / (1024 * 1024)
+    };
+  }
+
+  async clearCache(request: ClearCacheRequest): Promise<ClearCacheResponse> {
+    await this.load();
+    const startTime = Date.now();
+
+    const kept: StoredEntry[] = [];
+    const cleared: StoredEntry[] = [];
+
+    for (const stored of this.entries) {
+      (this.matchesClearRequest(stored.entry, request, startTime) ? cleared : kept).push(stored);
+    }
+
+    this.entries = kept;
+    await this.persist();
+
+    return {
+      entries_cleared: cleared.length,
+      space_freed_mb: JSON.stringify(cleared).length / (1024 * 1024),
+      operation_time_ms: Date.now() - startTime
+    };
+  }
+
+  async invalidate(request: InvalidateRequest, dryRun: boolean): Promise<InvalidateResponse> {
+    await this.load();
+    const startTime = Date.now();
+    const models = request.model === undefined ? undefined : ([] as string[]).concat(request.model);
+    const target = request.similar_to && {
+      ...request.similar_to,
+      embedding: await this.options.embed(request.similar_to.query)
+    };
+
+    const matched = this.entries.filter(({ entry }) =>
+      this.matchesClearRequest(entry, request, startTime) &&
+      (models === undefined || (entry.model !== undefined && models.includes(entry.model))) &&
+      matchesMetadata(entry.metadata, request.metadata || {}) &&
+      (!target || (
+        (target.context === undefined || entry.query_context === target.context) &&
+        cosineSimilarity(target.embedding, entry.embedding) >= target.min_similarity
+      ))
+    );
+
+    if (!dryRun) {
+      this.entries = this.entries.filter(stored => !matched.includes(stored));
+      await this.persist();
+    }
+
+    return {
+      entries_cleared: dryRun ? 0 : matched.length,
+      space_freed_mb: dryRun ? 0 : JSON.stringify(matched).length / (1024 * 1024),
+      operation_time_ms: Date.now() - startTime,
+      entries_matched: matched.length,
+      deleted_ids: dryRun ? [] : matched.map(({ entry }) => entry.id),
+      dry_run: dryRun,
+      ...(dryRun && { entries: matched.map(({ entry }) => entry) })
+    };
+  }
+
+  async listEntries(projectId: string, options: ListEntriesOptions = {}): Promise<CacheEntryPage> {
+    await this.load();
+    const now = Date.now();
+    const { filter = {}, sortBy = 'created_at', sortOrder = 'desc', limit = 100 } = options;
+    const query = filter.query?.toLowerCase();
+
+    const matching = this.entries
+      .map(({ entry }) => entry)
+      .filter(entry =>
+        entry.project_id === projectId &&
+        (query === undefined || entry.query_text.toLowerCase().includes(query)) &&
+        (filter.expired === undefined || (Date.parse(entry.expires_at) <= now) === filter.expired) &&
+        matchesMetadata(entry.metadata, filter.metadata || {})
+      );
+
+    const sortValue = (entry: CacheEntry) =>
+      sortBy === 'hit_count' ? entry.hit_count : Date.parse(entry[sortBy] || '') || 0;
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    matching.sort((a, b) => (sortValue(a) - sortValue(b)) * direction);
+
+    // The cursor is the offset of the next page
+    const offset = options.cursor ? parseInt(options.cursor, 10) || 0 : 0;
+    const end = offset + limit;
+
+    return {
+      entries: matching.slice(offset, end),
+      ...(end < matching.length && { next_cursor: String(end) })
+    };
+  }
+
+  async getEntry(id: string, projectId?: string): Promise<CacheEntry> {
+    await this.load();
+    return this.findEntry(id, projectId).entry;
+  }
+
+  async updateEntry(id: string, update: UpdateCacheEntryRequest, projectId?: string): Promise<CacheEntry> {
+    await this.load();
+    const stored = this.findEntry(id, projectId);
+
+    stored.entry = {
+      ...stored.entry,
+      ...(update.response_text !== undefined && { response_text: update.response_text }),
+      ...(update.metadata !== undefined && { metadata: update.metadata }),
+      ...(update.expires_at !== undefined && { expires_at: new Date(update.expires_at).toISOString() })
+    };
+    await this.persist();
+
+    return stored.entry;
+  }
+
+  async deleteEntry(id: string, projectId?: string): Promise<DeleteCacheEntryResponse> {
+    await this.load();
+    const stored = this.findEntry(id, projectId);
+
+    this.entries = this.entries.filter(candidate => candidate !== stored);
+    await this.persist();
+
+    return { id, deleted: true };
+  }
+
+  async importEntries(request: CacheImportRequest, projectId: string): Promise<CacheImportResponse> {
+    await this.load();
+    let imported = 0;
+    let skipped = 0;
+
+    for (const record of request.entries) {
+      // Copies of another project's entries get an ID of their own, so re-importing still finds them
+      const owner = this.entries.find(({ entry }) => entry.id === record.id)?.entry.project_id;
+      const id = owner !== undefined && owner !== projectId ? `${record.id}_${projectId}` : record.id || generateId('entry');
+      const existing = this.entries.findIndex(({ entry }) => entry.id === id && entry.project_id === projectId);
+      if (existing !== -1 && request.on_conflict === 'skip') {
+        skipped++;
+        continue;
+      }
+      if (existing !== -1 && request.on_conflict === 'fail') {
+        throw new VectorcacheAPIError(`Cache entry ${record.id} already exists`, 409, 'CONFLICT');
+      }
+
+      const embedding = request.reembed || !record.embedding
+        ? await this.options.embed(record.query_text)
+        : record.embedding;
+      const stored: StoredEntry = {
+        entry: { ...record, id, project_id: projectId, embedding },
+        tokens: 0,
+        cost: 0
+      };
+
+      if (existing !== -1) {
+        this.entries[existing] = stored;
+      } else {
+        this.entries.push(stored);
+      }
+      imported++;
+    }
+
+    await this.persist();
+    return { imported, skipped };
+  }
+
+  /**
+   * Whether an entry matches the project, expiry and age filters of a clear request
+   */
+  private matchesClearRequest(entry: CacheEntry, request: ClearCacheRequest, now: number): boolean {
+    const olderThan = request.older_than_hours !== undefined
+      ? now - request.older_than_hours * 60 * 60 * 1000
+      : undefined;
+
+    return (!request.project_id || entry.project_id === request.project_id) &&
+      (!request.expired_only || Date.parse(entry.expires_at) <= now) &&
+      (olderThan === undefined || Date.parse(entry.created_at) < olderThan);
+  }
+
+  /**
+   * Find an entry by ID; with a project, entries of other projects are not found
+   */
+  private findEntry(id: string, projectId?: string): StoredEntry {
+    const stored = this.entries.find(({ entry }) => entry.id === id && (!projectId || entry.project_id === projectId));
+    if (!stored) {
+      throw new VectorcacheNotFoundError(`Cache entry ${id} not found`);
+    }
+    return stored;
+  }
+
+  /**
+   * Load the persisted index once, if a persistence path is configured
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readIndex();
+    }
+    return this.loaded;
+  }
+
+  private async readIndex(): Promise<void> {
+    if (!this.options.persistPath) {
+      return;
+    }
+
+    const fs = await import('fs');
+    let contents: string;
+
+    try {
+      contents = await fs.promises.readFile(this.options.persistPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const index = JSON.parse(contents) as PersistedIndex;
+    this.entries = index.entries || [];
+    this.hitSimilarityTotals = index.hitSimilarityTotals || {};
+  }
+
+  /**
+   * Write any pending changes, such as hit statistics, to disk now
+   */
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+      await this.persist();
+    }
+    await this.pendingWrite;
+  }
+
+  /**
+   * Write the index to disk, serializing concurrent writes
+   *
+   * Changes made while a write is queued are picked up by that write, so a
+   * burst of changes costs at most one write after the one in progress.
+   */
+  private persist(): Promise<void> {
+    const path = this.options.persistPath;
+    if (!path) {
+      return Promise.resolve();
+    }
+    if (this.queuedWrite) {
+      return this.queuedWrite;
+    }
+
+    this.queuedWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        this.queuedWrite = undefined;
+        const index: PersistedIndex = {
+          version: 1,
+          entries: this.entries,
+          hitSimilarityTotals: this.hitSimilarityTotals
+        };
+        const fs = await import('fs');
+        await fs.promises.writeFile(path, JSON.stringify(index), 'utf8');
+      });
+    this.pendingWrite = this.queuedWrite;
+
+    return this.queuedWrite;
+  }
+
+  /**
+   * Schedule a write for changes that can wait, such as hit statistics
+   */
+  private persistSoon(): void {
+    if (!this.options.persistPath || this.persistTimer) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      // A failed write is retried by the next one, which writes the whole index
+      this.persist().catch(() => undefined);
+    }, this.options.persistDebounceMs ?? 1000);
+    this.persistTimer.unref?.();
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Client-side metrics for Vectorcache SDK
+ */
+
+import { HistogramSnapshot, MetricsSeries, MetricsSnapshot } from './types';
+
+/** Upper bounds of the latency histogram buckets, in milliseconds */
+const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/** Upper bounds of the similarity score histogram buckets */
+const SIMILARITY_BUCKETS = [0.5, 0.6, 0.7, 0.8, 0.85, 0.9, 0.95, 0.98, 1];
+
+/** Labels every series is split by */
+export interface MetricLabels {
+  project: string;
+  model: string;
+}
+
+/** The parts of a query or lookup response that metrics are taken from */
+export interface MeasuredResponse {
+  is_cache_hit: boolean;
+  response_time_ms?: number;
+  similarity_score?: number;
+  tokens_used?: number;
+  estimated_cost?: number;
+}
+
+class Histogram {
+  private readonly counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(private readonly bounds: number[]) {
+    this.counts = new Array(bounds.length).fill(0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+
+    const index = this.bounds.findIndex(bound => value <= bound);
+    if (index !== -1) {
+      this.counts[index]++;
+    }
+  }
+
+  snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    return {
+      buckets: this.bounds.map((le, i) => ({ le, count: (cumulative += this.counts[i]) })),
+      sum: this.sum,
+      count: this.count
+    };
+  }
+}
+
+interface Series {
+  labels: MetricLabels;
+  hits: number;
+  misses: number;
+  errors: Record<string, number>;
+  tokensUsed: number;
+  estimatedCost: number;
+  responseTime: Histogram;
+  wallTime: Histogram;
+  similarity: Histogram;
+}
+
+/**
+ * Accumulates query metrics per project and model
+ */
+export class MetricsRecorder {
+  private readonly series = new Map<string, Series>();
+
+  recordResponse(labels: MetricLabels, response: MeasuredResponse, wallTimeMs: number): void {
+    const series = this.getSeries(labels);
+
+    if (response.is_cache_hit) {
+      series.hits++;
+    } else {
+      series.misses++;
+    }
+
+    series.wallTime.observe(wallTimeMs);
+    if (typeof response.response_time_ms === 'number') {
+      series.responseTime.observe(response.response_time_ms);
+    }
+    if (typeof response.similarity_score === 'number') {
+      series.similarity.observe(response.similarity_score);
+    }
+    series.tokensUsed += response.tokens_used || 0;
+    series.estimatedCost += response.estimated_cost || 0;
+  }
+
+  recordError(labels: MetricLabels, error: unknown): void {
+    const series = this.getSeries(labels);
+    const errorClass = error instanceof Error ? error.name : 'UnknownError';
+    series.errors[errorClass] = (series.errors[errorClass] || 0) + 1;
+  }
+
+  snapshot(): MetricsSnapshot {
+    const series: MetricsSeries[] = Array.from(this.series.values()).map(entry => ({
+      ...entry.labels,
+      hits: entry.hits,
+      misses: entry.misses,
+      errors: { ...entry.errors },
+      tokens_used: entry.tokensUsed,
+      estimated_cost: entry.estimatedCost,
+      response_time_ms: entry.responseTime.snapshot(),
+      wall_time_ms: entry.wallTime.snapshot(),
+      similarity_score: entry.similarity.snapshot()
+    }));
+
+    return { series, collected_at: new Date().toISOString() };
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  private getSeries(labels: MetricLabels): Series {
+    const key = JSON.stringify([labels.project, labels.model]);
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = {
+        labels: { ...labels },
+        hits: 0,
+        misses: 0,
+        errors: {},
+        tokensUsed: 0,
+        estimatedCost: 0,
+        responseTime: new Histogram(LATENCY_BUCKETS_MS),
+        wallTime: new Histogram(LATENCY_BUCKETS_MS),
+        similarity: new Histogram(SIMILARITY_BUCKETS)
+      };
+      this.series.set(key, series);
+    }
+
+    return series;
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string | number>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(String(value))}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format
+ *
+ * @example
+ * ```typescript
+ * app.get('/metrics', (req, res) => {
+ *   res.type('text/plain').send(formatPrometheus(client.metrics()));
+ * });
+ * ```
+ */
+export function formatPrometheus(snapshot: MetricsSnapshot, prefix: string = 'vectorcache'): string {
+  const lines: string[] = [];
+
+  const header = (name: string, type: 'counter' | 'histogram', help: string) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+  };
+
+  const histogram = (name: string, pick: (series: MetricsSeries) => HistogramSnapshot) => {
+    for (const series of snapshot.series) {
+      const labels = { project: series.project, model: series.model };
+      const values = pick(series);
+      for (const bucket of values.buckets) {
+        lines.push(`${prefix}_${name}_bucket${formatLabels({ ...labels, le: bucket.le })} ${bucket.count}`);
+      }
+      lines.push(`${prefix}_${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${values.count}`);
+      lines.push(`${prefix}_${name}_sum${formatLabels(labels)} ${values.sum}`);
+      lines.push(`${prefix}_${name}_count${formatLabels(labels)} ${values.count}`);
+    }
+  };
+
+  header('queries_total', 'counter', 'Cache queries by result');
+  for (const series of snapshot.series) {
+    const labels = { project: series.project, model: series.model };
+    lines.push(`${prefix}_queries_total${formatLabels({ ...labels, result: 'hit' })} ${series.hits}`);
+    lines.push(`${prefix}_queries_total${formatLabels({ ...labels, result: 'miss' })} ${series.misses}`);
+  }
+
+  header('errors_total', 'counter', 'Failed cache queries by error class');
+  for (const series of snapshot.series) {
+    for (const [error, count] of Object.entries(series.errors)) {
+      lines.push(`${prefix}_errors_total${formatLabels({ project: series.project, model: series.model, error })} ${count}`);
+    }
+  }
+
+  header('tokens_used_total', 'counter', 'Tokens used by cache misses');
+  for (const series of snapshot.series) {
+    lines.push(`${prefix}_tokens_used_total${formatLabels({ project: series.project, model: series.model })} ${series.tokens_used}`);
+  }
+
+  header('estimated_cost_usd_total', 'counter', 'Estimated LLM cost in USD');
+  for (const series of snapshot.series) {
+    lines.push(
+      `${prefix}_estimated_cost_usd_total${formatLabels({ project: series.project, model: series.model })} ${series.estimated_cost}`
+    );
+  }
+
+  header('response_time_milliseconds', 'histogram', 'Server-reported response time');
+  histogram('response_time_milliseconds', series => series.response_time_ms);
+
+  header('wall_time_milliseconds', 'histogram', 'Wall-clock time measured by the client');
+  histogram('wall_time_milliseconds', series => series.wall_time_ms);
+
+  header('similarity_score', 'histogram', 'Similarity score of cache hits');
+  histogram('similarity_score', series => series.similarity_score);
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,320 @@
+/**
+ * OpenAI integration for Vectorcache SDK
+ * Wraps an OpenAI client so chat completions are served from the cache when possible
+ */
+
+import { VectorcacheClient } from './client';
+import { VectorcacheAbortError } from './errors';
+import { Message, SemanticQueryRequest, VectorcacheCompletionMetadata } from './types';
+import { MAX_TOKENS_LIMIT } from './validation';
+
+/** Subset of OpenAI's chat completion message shape used for caching */
+export interface OpenAIChatMessage {
+  role: string;
+  content?: string | Array<{ type: string; text?: string }> | null;
+  [key: string]: any;
+}
+
+/** Subset of OpenAI's chat completion create params used for caching */
+export interface OpenAIChatCompletionParams {
+  model: string;
+  messages: OpenAIChatMessage[];
+  max_tokens?: number | null;
+  max_completion_tokens?: number | null;
+  temperature?: number | null;
+  stream?: boolean | null;
+  [key: string]: any;
+}
+
+export interface OpenAIChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: 'assistant'; content: string | null; [key: string]: any };
+    finish_reason: string | null;
+    logprobs?: any;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  /** Added by the Vectorcache wrapper */
+  vectorcache?: VectorcacheCompletionMetadata;
+  [key: string]: any;
+}
+
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: { role?: 'assistant'; content?: string | null; [key: string]: any };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIChatCompletion['usage'] | null;
+  /** Added by the Vectorcache wrapper on the final chunk */
+  vectorcache?: VectorcacheCompletionMetadata;
+  [key: string]: any;
+}
+
+/** Minimal structural type of an OpenAI client */
+export interface OpenAILike {
+  chat: {
+    completions: {
+      create(params: any, options?: any): Promise<any>;
+    };
+  };
+}
+
+export interface WrapOpenAIOptions {
+  /** Project to cache completions in (defaults to the client's project) */
+  projectId?: string;
+  /** Return true to send a call straight to OpenAI without touching the cache */
+  bypass?: (params: OpenAIChatCompletionParams) => boolean;
+  /** Called when a cache lookup or store fails; the call itself still goes through */
+  onCacheError?: (error: Error) => void;
+}
+
+/**
+ * Params that are part of the cache key or leave the answer unchanged;
+ * calls that set any other param go straight to OpenAI
+ */
+const CACHED_PARAMS = [
+  'model',
+  'messages',
+  'max_tokens',
+  'max_completion_tokens',
+  'temperature',
+  'n',
+  'stream',
+  'stream_options',
+  'user',
+  'store',
+  'metadata'
+];
+
+function isParamSet(name: string, value: unknown): boolean {
+  if (value === undefined || value === null || value === false) {
+    return false;
+  }
+  // Plain text is the default response format
+  return !(name === 'response_format' && (value as { type?: string }).type === 'text');
+}
+
+/**
+ * Convert OpenAI chat params into a Vectorcache request, or `undefined`
+ * when the call cannot be cached (multiple choices, non-text content, a `max_tokens`
+ * above what the API accepts, or any param outside `CACHED_PARAMS`, such as tools or `seed`)
+ */
+export function openAIParamsToRequest(params: OpenAIChatCompletionParams): SemanticQueryRequest | undefined {
+  if (params.n !== undefined && params.n !== null && params.n !== 1) {
+    return undefined;
+  }
+  if (Object.keys(params).some(name => !CACHED_PARAMS.includes(name) && isParamSet(name, params[name]))) {
+    return undefined;
+  }
+
+  const messages: Message[] = [];
+
+  for (const message of params.messages) {
+    const role = message.role === 'developer' ? 'system' : message.role;
+    if (role !== 'system' && role !== 'user' && role !== 'assistant') {
+      return undefined;
+    }
+
+    const content = messageContentToText(message.content);
+    if (content === undefined) {
+      return undefined;
+    }
+
+    messages.push({ role, content });
+  }
+
+  const maxTokens = params.max_completion_tokens ?? params.max_tokens;
+  if (typeof maxTokens === 'number' && maxTokens > MAX_TOKENS_LIMIT) {
+    return undefined;
+  }
+
+  return {
+    messages,
+    model: params.model,
+    ...(maxTokens !== undefined && maxTokens !== null && { max_tokens: maxTokens }),
+    ...(params.temperature !== undefined && params.temperature !== null && { temperature: params.temperature })
+  };
+}
+
+function messageContentToText(content: OpenAIChatMessage['content']): string | undefined {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  if (Array.isArray(content) && content.every(part => part.type === 'text')) {
+    return content.map(part => part.text || '').join('');
+  }
+
+  return undefined;
+}
+
+function completionId(queryId?: string): string {
+  return `chatcmpl-vc-${queryId || Date.now().toString(36)}`;
+}
+
+function hitToCompletion(
+  params: OpenAIChatCompletionParams,
+  response: string,
+  metadata: VectorcacheCompletionMetadata
+): OpenAIChatCompletion {
+  return {
+    id: completionId(metadata.query_id),
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: params.model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content: response, refusal: null },
+      finish_reason: 'stop',
+      logprobs: null
+    }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    vectorcache: metadata
+  };
+}
+
+async function* hitToChunks(
+  params: OpenAIChatCompletionParams,
+  response: string,
+  metadata: VectorcacheCompletionMetadata
+): AsyncGenerator<OpenAIChatCompletionChunk> {
+  const base = {
+    id: completionId(metadata.query_id),
+    object: 'chat.completion.chunk' as const,
+    created: Math.floor(Date.now() / 1000),
+    model: params.model
+  };
+
+  yield { ...base, choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }] };
+  yield { ...base, choices: [{ index: 0, delta: { content: response }, finish_reason: null }] };
+  yield { ...base, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], vectorcache: metadata };
+}
+
+/**
+ * Wrap an OpenAI client so `chat.completions.create` checks Vectorcache first
+ *
+ * On a hit the cached answer is returned in OpenAI's response shape without
+ * calling OpenAI. On a miss the real client is called and its answer is
+ * stored. Every other property of the client is passed through unchanged.
+ *
+ * @example
+ * ```typescript
+ * const openai = wrapOpenAI(new OpenAI(), vectorcache);
+ * const completion = await openai.chat.completions.create({ model: 'gpt-4o', messages });
+ * console.log(completion.vectorcache?.is_cache_hit);
+ * ```
+ */
+export function wrapOpenAI<T extends OpenAILike>(
+  openai: T,
+  vectorcache: VectorcacheClient,
+  options: WrapOpenAIOptions = {}
+): T {
+  const reportError = (error: unknown) => {
+    options.onCacheError?.(error as Error);
+  };
+
+  const storeCompletion = (request: SemanticQueryRequest, response: string, tokensUsed?: number) => {
+    vectorcache
+      .store({ ...request, response, tokens_used: tokensUsed }, { projectId: options.projectId })
+      .catch(reportError);
+  };
+
+  async function* streamMiss(
+    request: SemanticQueryRequest,
+    stream: AsyncIterable<OpenAIChatCompletionChunk>
+  ): AsyncGenerator<OpenAIChatCompletionChunk> {
+    let text = '';
+    let tokensUsed: number | undefined;
+    let finished = false;
+
+    for await (const chunk of stream) {
+      text += chunk.choices?.[0]?.delta?.content || '';
+      tokensUsed = chunk.usage?.total_tokens ?? tokensUsed;
+
+      // Like cached streams, the chunk that finishes the answer carries the metadata
+      if (!finished && chunk.choices?.[0]?.finish_reason) {
+        finished = true;
+        yield { ...chunk, vectorcache: { is_cache_hit: false } };
+        continue;
+      }
+      yield chunk;
+    }
+
+    // Only complete answers are cached
+    if (finished) {
+      storeCompletion(request, text, tokensUsed);
+    }
+  }
+
+  const create = async (params: OpenAIChatCompletionParams, requestOptions?: any) => {
+    const request = options.bypass?.(params) ? undefined : openAIParamsToRequest(params);
+    if (!request) {
+      return openai.chat.completions.create(params, requestOptions);
+    }
+
+    try {
+      const lookup = await vectorcache.lookup(request, {
+        projectId: options.projectId,
+        signal: requestOptions?.signal
+      });
+      if (lookup.is_cache_hit && lookup.response !== undefined) {
+        const metadata: VectorcacheCompletionMetadata = {
+          is_cache_hit: true,
+          similarity_score: lookup.similarity_score,
+          cache_entry_id: lookup.cache_entry_id,
+          query_id: lookup.query_id
+        };
+        return params.stream
+          ? hitToChunks(params, lookup.response, metadata)
+          : hitToCompletion(params, lookup.response, metadata);
+      }
+    } catch (error) {
+      if (error instanceof VectorcacheAbortError) {
+        throw error;
+      }
+      reportError(error);
+    }
+
+    const result = await openai.chat.completions.create(params, requestOptions);
+
+    if (params.stream) {
+      return streamMiss(request, result);
+    }
+
+    const completion = result as OpenAIChatCompletion;
+    const content = completion.choices?.[0]?.message?.content;
+    if (typeof content === 'string' && completion.choices[0].finish_reason === 'stop') {
+      storeCompletion(request, content, completion.usage?.total_tokens);
+    }
+
+    return { ...completion, vectorcache: { is_cache_hit: false } };
+  };
+
+  const completions = new Proxy(openai.chat.completions, {
+    get: (target, property, receiver) =>
+      property === 'create' ? create : Reflect.get(target, property, receiver)
+  });
+
+  const chat = new Proxy(openai.chat, {
+    get: (target, property, receiver) =>
+      property === 'completions' ? completions : Reflect.get(target, property, receiver)
+  });
+
+  return new Proxy(openai, {
+    get: (target, property, receiver) =>
+      property === 'chat' ? chat : Reflect.get(target, property, receiver)
+  });
+}
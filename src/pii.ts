@@ -0,0 +1,363 @@
+/**
+ * PII redaction for Vectorcache SDK
+ * Finds personal data in prompts and masks, hashes or rejects it before it leaves the process
+ */
+
+import {
+  BuiltInPiiDetector,
+  CacheStoreRequest,
+  CacheTestRequest,
+  CustomPiiDetector,
+  PiiFinding,
+  PiiRedactionMode,
+  PiiRedactionOptions,
+  PiiSpan,
+  SemanticQueryRequest
+} from './types';
+import { VectorcacheValidationError } from './errors';
+
+interface Detector {
+  type: string;
+  find: (text: string) => PiiSpan[];
+}
+
+interface Detection extends PiiSpan {
+  type: string;
+}
+
+/** A request with its PII handled according to the redaction mode */
+export interface RedactedRequest<T> {
+  request: T;
+  /** Whether PII was found and the mode sends the request past the cache */
+  bypassCache: boolean;
+  /** Put the original values back into response text; only set for tokenized requests */
+  restore?: (text: string) => string;
+}
+
+const BUILT_IN_PATTERNS: Record<BuiltInPiiDetector, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  phone: /(?<!\d)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}(?!\d)/g,
+  'credit-card': /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+  // Only names introduced by a title or "my name is"; use a custom detector for anything broader
+  name: /(?<=\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+|\b[Mm]y name is\s+)[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g
+};
+
+/** Longest text held back while waiting for the end of a streamed placeholder */
+const MAX_PLACEHOLDER_LENGTH = 64;
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function patternSpans(pattern: RegExp, text: string): PiiSpan[] {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  return Array.from(text.matchAll(new RegExp(pattern.source, flags)))
+    .filter(match => match[0].length > 0)
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+}
+
+function toDetector(detector: BuiltInPiiDetector | CustomPiiDetector): Detector {
+  if (typeof detector === 'string') {
+    const pattern = BUILT_IN_PATTERNS[detector];
+    if (!pattern) {
+      throw new Error(`Unknown PII detector: ${detector}`);
+    }
+    const find = (text: string) => patternSpans(pattern, text);
+    return {
+      type: detector,
+      find: detector === 'credit-card'
+        ? text => find(text).filter(span => passesLuhn(text.slice(span.start, span.end).replace(/\D/g, '')))
+        : find
+    };
+  }
+
+  if (detector.pattern) {
+    return { type: detector.type, find: text => patternSpans(detector.pattern!, text) };
+  }
+  if (detector.detect) {
+    return { type: detector.type, find: detector.detect };
+  }
+  throw new Error(`PII detector ${detector.type} needs a pattern or a detect function`);
+}
+
+/** Placeholder label for a detector type, e.g. 'credit-card' -> 'CREDIT_CARD' */
+function toLabel(type: string): string {
+  return type.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/** Keyed hash of a finding; without the secret salt the short digest cannot be brute-forced back to the value */
+async function hashValue(value: string, salt: string): Promise<string> {
+  const { createHmac } = await import('crypto');
+  return createHmac('sha256', salt).update(value).digest('hex').slice(0, 12);
+}
+
+/**
+ * Restore placeholders in streamed text, holding back a placeholder split across deltas
+ */
+export function createStreamRestorer(restore: (text: string) => string): {
+  push: (delta: string) => string;
+  flush: () => string;
+} {
+  let pending = '';
+
+  return {
+    push(delta: string): string {
+      pending += delta;
+      const open = pending.lastIndexOf('[');
+      const held = open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH
+        ? open
+        : pending.length;
+      const ready = pending.slice(0, held);
+      pending = pending.slice(held);
+      return restore(ready);
+    },
+    flush(): string {
+      const rest = pending;
+      pending = '';
+      return restore(rest);
+    }
+  };
+}
+
+export class PiiRedactor {
+  private readonly detectors: Detector[];
+  private readonly mode: PiiRedactionMode;
+
+  constructor(private readonly options: PiiRedactionOptions = {}) {
+    this.detectors = (options.detectors || (Object.keys(BUILT_IN_PATTERNS) as BuiltInPiiDetector[])).map(toDetector);
+    this.mode = options.mode || 'mask';
+    if (this.mode === 'hash' && !options.hashSalt) {
+      throw new Error("PII redaction in 'hash' mode requires a hashSalt");
+    }
+  }
+
+  /**
+   * Redact the query, context and message contents of a query
+   */
+  async redactQuery(request: SemanticQueryRequest): Promise<RedactedRequest<SemanticQueryRequest>> {
+    return this.redactRequest(request, this.mode);
+  }
+
+  /**
+   * Redact a similarity search; a search is never answered by the LLM, so `bypass-cache` masks instead
+   */
+  async redactSearch(request: SemanticQueryRequest): Promise<RedactedRequest<SemanticQueryRequest>> {
+    return this.redactRequest(request, this.storingMode());
+  }
+
+  /**
+   * Redact the prompt and response of a store request; under `bypass-cache` a store with PII is skipped
+   */
+  async redactStore(request: CacheStoreRequest): Promise<RedactedRequest<CacheStoreRequest>> {
+    return this.redactRequest(request, this.mode);
+  }
+
+  /**
+   * Redact the prompt and context of a cache test
+   *
+   * A cache test always stores its answer, so `bypass-cache` masks instead.
+   */
+  async redactTest(request: CacheTestRequest): Promise<RedactedRequest<CacheTestRequest>> {
+    const result = await this.redactTexts({ prompt: request.prompt, context: request.context }, this.storingMode());
+    if (!result.redacted) {
+      return { request, bypassCache: false };
+    }
+
+    return {
+      request: {
+        ...request,
+        prompt: result.redacted.prompt,
+        ...(request.context !== undefined && { context: result.redacted.context })
+      },
+      bypassCache: false,
+      restore: result.restore
+    };
+  }
+
+  /**
+   * Redact the query and context a filter matches entries on, such as `similar_to` of an invalidation
+   *
+   * Filters are compared against stored entries, which `bypass-cache` masks, so it masks here too.
+   */
+  async redactFilter<T extends { query?: string; context?: string }>(filter: T): Promise<T> {
+    const result = await this.redactTexts({ query: filter.query, context: filter.context }, this.storingMode());
+    if (!result.redacted) {
+      return filter;
+    }
+
+    return {
+      ...filter,
+      ...(filter.query !== undefined && { query: result.redacted.query }),
+      ...(filter.context !== undefined && { context: result.redacted.context })
+    };
+  }
+
+  /**
+   * Mask PII in every string of a value, for logging
+   */
+  scrub(value: any): any {
+    if (typeof value === 'string') {
+      return this.find(value).reduceRight(
+        (text, detection) => `${text.slice(0, detection.start)}[${toLabel(detection.type)}]${text.slice(detection.end)}`,
+        value
+      );
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.scrub(item));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.scrub(item)]));
+    }
+    return value;
+  }
+
+  /** Mode for calls that cannot go past the cache */
+  private storingMode(): PiiRedactionMode {
+    return this.mode === 'bypass-cache' ? 'mask' : this.mode;
+  }
+
+  private async redactRequest<T extends SemanticQueryRequest & { response?: string }>(
+    request: T,
+    mode: PiiRedactionMode
+  ): Promise<RedactedRequest<T>> {
+    const texts: Record<string, string | undefined> = {
+      query: request.query,
+      context: request.context,
+      response: request.response
+    };
+    request.messages?.forEach((message, i) => {
+      texts[`messages[${i}].content`] = message.content;
+    });
+
+    const result = await this.redactTexts(texts, mode);
+    if (!result.redacted) {
+      return { request, bypassCache: result.bypassCache };
+    }
+
+    const redacted = result.redacted;
+    return {
+      request: {
+        ...request,
+        ...(request.query !== undefined && { query: redacted.query }),
+        ...(request.context !== undefined && { context: redacted.context }),
+        ...(request.response !== undefined && { response: redacted.response }),
+        ...(request.messages && {
+          messages: request.messages.map((message, i) => ({ ...message, content: redacted[`messages[${i}].content`] }))
+        })
+      },
+      bypassCache: false,
+      restore: result.restore
+    };
+  }
+
+  /**
+   * Find PII in a text; overlapping findings go to the earliest, then the longest
+   */
+  private find(text: string): Detection[] {
+    const detections = this.detectors
+      .flatMap(detector => detector.find(text).map(span => ({ ...span, type: detector.type })))
+      .sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+    const kept: Detection[] = [];
+    for (const detection of detections) {
+      if (kept.length === 0 || detection.start >= kept[kept.length - 1].end) {
+        kept.push(detection);
+      }
+    }
+    return kept;
+  }
+
+  private async redactTexts(
+    texts: Record<string, string | undefined>,
+    mode: PiiRedactionMode
+  ): Promise<{ redacted?: Record<string, string>; bypassCache: boolean; restore?: (text: string) => string }> {
+    const findings: PiiFinding[] = [];
+    const detectionsByField: Record<string, Detection[]> = {};
+
+    for (const [field, text] of Object.entries(texts)) {
+      if (text === undefined) {
+        continue;
+      }
+      const detections = this.find(text);
+      detectionsByField[field] = detections;
+
+      const counts: Record<string, number> = {};
+      detections.forEach(detection => {
+        counts[detection.type] = (counts[detection.type] || 0) + 1;
+      });
+      Object.entries(counts).forEach(([type, count]) => findings.push({ field, type, count }));
+    }
+
+    if (findings.length === 0) {
+      return { bypassCache: false };
+    }
+
+    this.options.onRedaction?.({ action: mode, findings });
+
+    if (mode === 'reject') {
+      throw new VectorcacheValidationError('Request contains PII', {
+        errors: findings.map(finding => ({ field: finding.field, message: `contains ${finding.type}` }))
+      });
+    }
+    if (mode === 'bypass-cache') {
+      return { bypassCache: true };
+    }
+
+    // The same value gets the same placeholder across all fields of the request
+    const placeholders = new Map<string, string>();
+    const counters: Record<string, number> = {};
+    const placeholderFor = async (type: string, value: string): Promise<string> => {
+      const key = `${type}\u0000${value}`;
+      let placeholder = placeholders.get(key);
+      if (!placeholder) {
+        const label = toLabel(type);
+        if (mode === 'hash') {
+          placeholder = `[${label}:${await hashValue(value, this.options.hashSalt!)}]`;
+        } else if (this.options.tokenize) {
+          counters[label] = (counters[label] || 0) + 1;
+          placeholder = `[${label}_${counters[label]}]`;
+        } else {
+          placeholder = `[${label}]`;
+        }
+        placeholders.set(key, placeholder);
+      }
+      return placeholder;
+    };
+
+    const redacted: Record<string, string> = {};
+    const originals = new Map<string, string>();
+    for (const [field, detections] of Object.entries(detectionsByField)) {
+      const text = texts[field]!;
+      let result = '';
+      let offset = 0;
+      for (const detection of detections) {
+        const value = text.slice(detection.start, detection.end);
+        const placeholder = await placeholderFor(detection.type, value);
+        originals.set(placeholder, value);
+        result += `${text.slice(offset, detection.start)}${placeholder}`;
+        offset = detection.end;
+      }
+      redacted[field] = result + text.slice(offset);
+    }
+
+    const restore = this.options.tokenize
+      ? (text: string) => Array.from(originals).reduce(
+        (result, [placeholder, value]) => result.split(placeholder).join(value),
+        text
+      )
+      : undefined;
+
+    return { redacted, bypassCache: false, restore };
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Record/replay (VCR) mode for Vectorcache SDK
+ * Saves API exchanges to a cassette file and serves them back offline
+ */
+
+import { Cassette, CassetteExchange, CassetteRequest, RecordReplayOptions } from './types';
+import { VectorcacheReplayError } from './errors';
+
+const REDACTED = '[REDACTED]';
+
+/** Headers that are always redacted */
+const SECRET_HEADERS = ['x-api-key', 'authorization'];
+
+/**
+ * Replace the fields at the given dot paths; arrays apply the rest of the path to each item
+ */
+export function redactFields(value: any, paths: string[]): any {
+  let result = value;
+  for (const path of paths) {
+    result = redactPath(result, path.split('.'));
+  }
+  return result;
+}
+
+function redactPath(value: any, keys: string[]): any {
+  if (Array.isArray(value)) {
+    return value.map(item => redactPath(item, keys));
+  }
+  if (typeof value !== 'object' || value === null || !(keys[0] in value)) {
+    return value;
+  }
+
+  const [key, ...rest] = keys;
+  return { ...value, [key]: rest.length === 0 ? REDACTED : redactPath(value[key], rest) };
+}
+
+/**
+ * JSON with sorted object keys, so equal bodies compare equal
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const pairs = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${pairs.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function parseBody(text: string): any {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Wrap a fetch implementation so requests are recorded to, or replayed from, a cassette
+ *
+ * In `passthrough` mode the fetch implementation is returned unchanged.
+ */
+export function createRecordReplayFetch(
+  options: RecordReplayOptions,
+  baseUrl: string,
+  fetchImpl?: typeof fetch
+): typeof fetch | undefined {
+  if (options.mode === 'passthrough') {
+    return fetchImpl;
+  }
+
+  const redactedHeaders = [...SECRET_HEADERS, ...(options.redactHeaders || []).map(name => name.toLowerCase())];
+  const redactedPaths = options.redactFields || [];
+  const exchanges: CassetteExchange[] = [];
+  const used = new Set<CassetteExchange>();
+  let loaded: Promise<void> | undefined;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const toCassetteRequest = (input: string | URL | Request, init: RequestInit = {}): CassetteRequest => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, name) => {
+      headers[name] = redactedHeaders.includes(name) ? REDACTED : value;
+    });
+
+    return {
+      method: (init.method || 'GET').toUpperCase(),
+      endpoint: url.startsWith(baseUrl) ? url.slice(baseUrl.length) : url,
+      headers,
+      body: redactFields(parseBody(typeof init.body === 'string' ? init.body : ''), redactedPaths)
+    };
+  };
+
+  const matches = (request: CassetteRequest, recorded: CassetteRequest): boolean => {
+    if (typeof options.match === 'function') {
+      return options.match(request, recorded);
+    }
+    return (options.match || ['method', 'endpoint', 'body']).every(part =>
+      part === 'body'
+        ? stableStringify(request.body) === stableStringify(recorded.body)
+        : request[part] === recorded[part]
+    );
+  };
+
+  const load = async (): Promise<void> => {
+    const fs = await import('fs');
+    let contents: string;
+
+    try {
+      contents = await fs.promises.readFile(options.cassette, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new VectorcacheReplayError(`Cassette ${options.cassette} does not exist; record it first`, {
+          cassette: options.cassette
+        });
+      }
+      throw error;
+    }
+
+    exchanges.push(...(JSON.parse(contents) as Cassette).exchanges);
+  };
+
+  // Each recording is replayed once, in order, so a miss followed by a hit replays faithfully
+  const replay = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    loaded = loaded || load();
+    await loaded;
+
+    const request = toCassetteRequest(input, init);
+    const exchange = exchanges.find(candidate => !used.has(candidate) && matches(request, candidate.request));
+    if (!exchange) {
+      throw new VectorcacheReplayError(
+        `No recording in ${options.cassette} matches ${request.method} ${request.endpoint}`,
+        { cassette: options.cassette, request }
+      );
+    }
+
+    used.add(exchange);
+    const { status, headers, body } = exchange.response;
+    const text = body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body);
+    return new Response(text, { status, headers });
+  };
+
+  const record = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const response = await (fetchImpl || fetch)(input, init);
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    exchanges.push({
+      request: toCassetteRequest(input, init),
+      response: { status: response.status, headers, body: redactFields(parseBody(text), redactedPaths) }
+    });
+
+    // Rewrite the whole cassette after each exchange, serializing concurrent writes
+    const cassette: Cassette = { version: 1, exchanges };
+    const contents = JSON.stringify(cassette, null, 2);
+    pendingWrite = pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        const fs = await import('fs');
+        await fs.promises.writeFile(options.cassette, contents, 'utf8');
+      });
+    await pendingWrite;
+
+    return new Response(text, { status: response.status, statusText: response.statusText, headers });
+  };
+
+  return options.mode === 'record' ? record : replay;
+}
@@ -0,0 +1,117 @@
+/**
+ * Retry policy helpers for Vectorcache SDK
+ */
+
+import { RetryPolicy } from './types';
+import { raceWithSignal } from './abort';
+
+import {
+  VectorcacheNetworkError,
+  VectorcacheRateLimitError,
+  VectorcacheServerError,
+  VectorcacheTimeoutError
+} from './errors';
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryOn: [
+    VectorcacheRateLimitError,
+    VectorcacheServerError,
+    VectorcacheNetworkError,
+    VectorcacheTimeoutError
+  ],
+  retryableStatuses: [502, 503, 504],
+  respectRetryAfter: true,
+  retryNonIdempotent: false
+};
+
+/** Policy used when retries are not configured: a single attempt */
+const NO_RETRY_POLICY: ResolvedRetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 1
+};
+
+/**
+ * Merge the client-level and per-request retry settings.
+ * `false` disables retries; an omitted setting inherits from the level above.
+ */
+export function resolveRetryPolicy(
+  clientPolicy?: RetryPolicy | false,
+  requestPolicy?: RetryPolicy | false
+): ResolvedRetryPolicy {
+  if (requestPolicy === false) {
+    return NO_RETRY_POLICY;
+  }
+
+  if (clientPolicy === false || clientPolicy === undefined) {
+    return requestPolicy ? { ...DEFAULT_RETRY_POLICY, ...requestPolicy } : NO_RETRY_POLICY;
+  }
+
+  return { ...DEFAULT_RETRY_POLICY, ...clientPolicy, ...requestPolicy };
+}
+
+/**
+ * Whether an error is worth another attempt under the given policy
+ */
+export function isRetryableError(policy: ResolvedRetryPolicy, error: unknown): boolean {
+  if (!policy.retryOn.some(errorClass => error instanceof errorClass)) {
+    return false;
+  }
+
+  // 500s usually mean a bug on the server; only gateway-style failures are retried
+  if (error instanceof VectorcacheServerError) {
+    return error.status !== undefined && policy.retryableStatuses.includes(error.status);
+  }
+
+  return true;
+}
+
+/**
+ * Compute the delay before the next attempt, or `undefined` when the
+ * server asked us to wait longer than the policy allows.
+ *
+ * @param attempt - 1-based number of the attempt that just failed
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  error: unknown
+): number | undefined {
+  if (
+    policy.respectRetryAfter &&
+    error instanceof VectorcacheRateLimitError &&
+    error.retryAfter !== undefined &&
+    !Number.isNaN(error.retryAfter)
+  ) {
+    const retryAfterMs = error.retryAfter * 1000;
+    return retryAfterMs > policy.maxDelayMs ? undefined : retryAfterMs;
+  }
+
+  const exponential = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  const delay = Math.min(exponential, policy.maxDelayMs);
+
+  if (!policy.jitter) {
+    return delay;
+  }
+
+  // Equal jitter: keep half the delay, randomize the other half
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Promise-based sleep that ends early with a VectorcacheAbortError when `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timer = new Promise<void>(resolve => {
+    timeoutId = setTimeout(resolve, ms);
+  });
+
+  return raceWithSignal(timer, signal).finally(() => clearTimeout(timeoutId));
+}
@@ -0,0 +1,68 @@
+/**
+ * Request coalescing for Vectorcache SDK
+ */
+
+import { raceWithSignal } from './abort';
+
+export interface SingleFlightResult<T> {
+  /** Resolved value of the shared call */
+  value: T;
+  /** Whether this caller joined a call started by another caller */
+  shared: boolean;
+}
+
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Shares one in-flight promise between concurrent callers using the same key.
+ * Each caller can abort independently; the shared call is only cancelled
+ * once every caller has aborted.
+ */
+export class SingleFlight<T> {
+  private readonly inFlight = new Map<string, Flight<T>>();
+
+  async run(
+    key: string,
+    fn: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<SingleFlightResult<T>> {
+    let flight = this.inFlight.get(key);
+    const shared = flight !== undefined;
+
+    if (!flight) {
+      const controller = new AbortController();
+      const promise = fn(controller.signal);
+      const created: Flight<T> = { promise, controller, waiters: 0 };
+      flight = created;
+      this.inFlight.set(key, created);
+
+      const cleanup = () => {
+        if (this.inFlight.get(key) === created) {
+          this.inFlight.delete(key);
+        }
+      };
+      promise.then(cleanup, cleanup);
+    }
+
+    const current = flight;
+    current.waiters++;
+
+    try {
+      return { value: await raceWithSignal(current.promise, signal), shared };
+    } catch (error) {
+      if (signal?.aborted && --current.waiters === 0) {
+        current.controller.abort();
+        this.inFlight.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+}
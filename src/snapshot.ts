@@ -0,0 +1,133 @@
+/**
+ * Cache snapshot helpers for Vectorcache SDK
+ * Snapshots are JSONL files with one CacheEntry record per line
+ */
+
+import { CacheEntry, CacheSnapshotRecord } from './types';
+import { VectorcacheValidationError } from './errors';
+
+/** Where a snapshot is written: a file path or a writable stream */
+export type SnapshotDestination = string | NodeJS.WritableStream;
+
+/** Where a snapshot is read from: a file path or a stream of text or bytes */
+export type SnapshotSource = string | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Convert a cache entry into a snapshot record, optionally without its embedding
+ */
+export function toSnapshotRecord(entry: CacheEntry, includeEmbeddings: boolean = true): CacheSnapshotRecord {
+  if (includeEmbeddings) {
+    return entry;
+  }
+
+  const { embedding, ...record } = entry;
+  return record;
+}
+
+/**
+ * Write records as JSONL, waiting for the destination to drain when its buffer is full
+ *
+ * @returns the number of records written
+ */
+export async function writeJsonl(records: AsyncIterable<object>, destination: SnapshotDestination): Promise<number> {
+  const file = typeof destination === 'string'
+    ? (await import('fs')).createWriteStream(destination, 'utf8')
+    : undefined;
+  const stream: NodeJS.WritableStream = file || destination as NodeJS.WritableStream;
+  let count = 0;
+
+  // Listen for errors up front so a failing stream rejects instead of hanging or being ignored
+  let streamError: Error | undefined;
+  let onError!: (error: Error) => void;
+  const failed = new Promise<never>((_, reject) => {
+    onError = error => {
+      streamError = error;
+      reject(error);
+    };
+  });
+  failed.catch(() => undefined);
+  stream.on('error', onError);
+
+  try {
+    for await (const record of records) {
+      if (streamError) {
+        throw streamError;
+      }
+      if (!stream.write(`${JSON.stringify(record)}\n`)) {
+        await Promise.race([new Promise(resolve => stream.once('drain', resolve)), failed]);
+      }
+      count++;
+    }
+  } finally {
+    try {
+      // Only close streams we opened
+      if (file) {
+        await Promise.race([
+          new Promise<void>((resolve, reject) => file.end((error?: Error | null) => (error ? reject(error) : resolve()))),
+          failed
+        ]);
+      }
+    } finally {
+      stream.removeListener('error', onError);
+    }
+  }
+
+  if (streamError) {
+    throw streamError;
+  }
+  return count;
+}
+
+/**
+ * Read a file or stream line by line
+ */
+export async function* readLines(source: SnapshotSource): AsyncGenerator<string> {
+  const input = typeof source === 'string'
+    ? (await import('fs')).createReadStream(source) as AsyncIterable<Uint8Array>
+    : source;
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of input) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+    yield* lines;
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+/**
+ * Parse snapshot records from JSONL, skipping blank lines
+ */
+export async function* readSnapshotRecords(source: SnapshotSource): AsyncGenerator<CacheSnapshotRecord> {
+  let lineNumber = 0;
+
+  for await (const line of readLines(source)) {
+    lineNumber++;
+    if (line.trim() === '') {
+      continue;
+    }
+
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new VectorcacheValidationError(`Invalid JSON on snapshot line ${lineNumber}`, { line: lineNumber });
+    }
+
+    if (!record || typeof record.query_text !== 'string' || typeof record.response_text !== 'string') {
+      throw new VectorcacheValidationError(
+        `Snapshot line ${lineNumber} is not a cache entry (query_text and response_text are required)`,
+        { line: lineNumber }
+      );
+    }
+
+    yield record as CacheSnapshotRecord;
+  }
+}
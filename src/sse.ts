@@ -0,0 +1,71 @@
+/**
+ * Server-Sent Events parsing for Vectorcache SDK
+ */
+
+export interface ServerSentEvent {
+  /** Event name (defaults to 'message') */
+  event: string;
+  /** Event payload, with multi-line data joined by newlines */
+  data: string;
+}
+
+/**
+ * Parse a byte stream into Server-Sent Events as they arrive
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() || '';
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) {
+          yield event;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventBlock(block: string): ServerSentEvent | undefined {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : undefined;
+}
@@ -0,0 +1,638 @@
+/**
+ * Test kit for Vectorcache SDK consumers
+ * An in-memory fake of the Vectorcache API that plugs into the client as its
+ * `fetch`, or runs as a local HTTP server for code that is not using the SDK
+ *
+ * @example
+ * ```typescript
+ * import { VectorcacheClient } from 'vectorcache';
+ * import { FakeVectorcacheServer } from 'vectorcache/testing';
+ *
+ * const server = new FakeVectorcacheServer();
+ * await server.seed([{ query: 'What is AI?', response: 'Artificial intelligence is...' }]);
+ *
+ * const client = new VectorcacheClient({ apiKey: 'test-key', fetch: server.fetch });
+ * const result = await client.query({ query: 'What is AI?' });
+ *
+ * expect(result.is_cache_hit).toBe(true);
+ * server.assertRequested('POST', '/v1/cache/query');
+ * ```
+ */
+
+import {
+  CacheMode,
+  CacheSnapshotRecord,
+  CacheTestRequest,
+  CacheTestResponse,
+  LLMResult,
+  ListEntriesOptions,
+  SemanticQueryRequest,
+  SemanticQueryResponse,
+  WorkflowStep
+} from './types';
+
+import { VectorcacheAPIError } from './errors';
+import { LocalBackend, requestToText } from './local-backend';
+import { getQueryRequestErrors } from './validation';
+
+export interface FakeServerOptions {
+  /** Require this exact API key; by default any non-empty X-API-Key is accepted */
+  apiKey?: string;
+  /** Project for queries, lookups and stores that do not name one (default: 'test-project') */
+  projectId?: string;
+  /** Similarity needed for a hit (default: 0.85) */
+  similarityThreshold?: number;
+  /** Embedding function; defaults to a deterministic bag-of-words embedding */
+  embed?: (text: string) => Promise<number[]>;
+  /** Produces the "LLM" answer on a miss (default: 'Fake response to: <query>') */
+  respond?: (request: SemanticQueryRequest) => LLMResult | Promise<LLMResult>;
+}
+
+export interface FakeSeedEntry extends SemanticQueryRequest {
+  /** Cached response */
+  response: string;
+  /** Entry ID (default: 'seed_<n>') */
+  id?: string;
+  /** Project to seed (default: the server's project) */
+  project_id?: string;
+}
+
+export type FakeFailure =
+  /** 429 with an optional Retry-After header, in seconds */
+  | { type: 'rate-limit'; retryAfter?: number }
+  /** 5xx response (default: 503) */
+  | { type: 'server-error'; status?: number; message?: string }
+  /** Any other status, e.g. 401 or 404 */
+  | { type: 'status'; status: number; body?: any }
+  /** Never respond; the client's timeout or abort signal ends the request */
+  | { type: 'timeout' }
+  /** 200 with a body that is not JSON */
+  | { type: 'malformed-json' }
+  /** Drop the connection */
+  | { type: 'network' };
+
+export interface FailureOptions {
+  /** Only fail requests to this path (default: any path) */
+  path?: string | RegExp;
+  /** Number of requests to fail (default: 1) */
+  times?: number;
+}
+
+export interface RecordedRequest {
+  /** HTTP method */
+  method: string;
+  /** Path without the query string, e.g. '/v1/cache/query' */
+  path: string;
+  /** Query string parameters */
+  query: Record<string, string>;
+  /** Request headers, with lower-case names */
+  headers: Record<string, string>;
+  /** Parsed JSON body */
+  body?: any;
+}
+
+interface FakeReply {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** A reply, or what should happen instead of one */
+type FakeOutcome = FakeReply | 'hang' | 'network';
+
+interface QueuedFailure {
+  failure: FakeFailure;
+  path?: string | RegExp;
+  remaining: number;
+}
+
+const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Deterministic embedding: hashed word counts, so identical texts have a
+ * similarity of 1 and unrelated texts a similarity near 0
+ */
+export async function bagOfWordsEmbedding(text: string): Promise<number[]> {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+    }
+    vector[(hash >>> 0) % EMBEDDING_DIMENSIONS]++;
+  }
+
+  return vector;
+}
+
+function matchesPath(path: string, pattern?: string | RegExp): boolean {
+  if (pattern === undefined) {
+    return true;
+  }
+  return typeof pattern === 'string' ? path === pattern : pattern.test(path);
+}
+
+function jsonReply(status: number, body: unknown, headers: Record<string, string> = {}): FakeReply {
+  return { status, headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) };
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * In-memory fake of the Vectorcache API
+ */
+export class FakeVectorcacheServer {
+  /** Every request received, oldest first */
+  readonly requests: RecordedRequest[] = [];
+
+  /** Pass as the client's `fetch` option */
+  readonly fetch: typeof fetch = (input, init) => this.handleFetch(input, init);
+
+  private backend!: LocalBackend;
+  private failures: QueuedFailure[] = [];
+  private forced: Array<'hit' | 'miss'> = [];
+  private seeded = 0;
+  private httpServer?: import('http').Server;
+  private readonly sockets = new Set<import('net').Socket>();
+  private readonly projectId: string;
+  private readonly respond: (request: SemanticQueryRequest) => Promise<LLMResult>;
+
+  constructor(private readonly options: FakeServerOptions = {}) {
+    this.projectId = options.projectId || 'test-project';
+    this.respond = async request => options.respond
+      ? options.respond(request)
+      : { response: `Fake response to: ${requestToText(request)}`, tokens_used: 50, estimated_cost: 0.001 };
+    this.reset();
+  }
+
+  /**
+   * Forget all entries, requests, queued failures and forced results
+   */
+  reset(): void {
+    this.backend = new LocalBackend({
+      embed: this.options.embed || bagOfWordsEmbedding,
+      llm: this.respond,
+      similarityThreshold: this.options.similarityThreshold
+    });
+    this.requests.length = 0;
+    this.failures = [];
+    this.forced = [];
+    this.seeded = 0;
+  }
+
+  /**
+   * Add cache entries; a query for the same text is then a hit
+   *
+   * @returns the IDs of the new entries
+   */
+  async seed(entries: FakeSeedEntry[]): Promise<string[]> {
+    const now = new Date();
+    const byProject = new Map<string, CacheSnapshotRecord[]>();
+
+    for (const entry of entries) {
+      const projectId = entry.project_id || this.projectId;
+      const record: CacheSnapshotRecord = {
+        id: entry.id || `seed_${++this.seeded}`,
+        project_id: projectId,
+        query_text: requestToText(entry),
+        query_context: entry.context,
+        response_text: entry.response,
+        similarity_threshold: this.options.similarityThreshold ?? 0.85,
+        hit_count: 0,
+        tokens_saved: 0,
+        cost_saved: 0,
+        metadata: entry.metadata,
+        created_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString()
+      };
+      byProject.set(projectId, [...(byProject.get(projectId) || []), record]);
+    }
+
+    for (const [projectId, records] of byProject) {
+      await this.backend.importEntries({ entries: records, on_conflict: 'overwrite', reembed: false }, projectId);
+    }
+
+    return Array.from(byProject.values()).flat().map(record => record.id);
+  }
+
+  /**
+   * Force the result of the next query, lookup or cache test
+   */
+  forceNext(result: 'hit' | 'miss', times: number = 1): void {
+    for (let i = 0; i < times; i++) {
+      this.forced.push(result);
+    }
+  }
+
+  /**
+   * Make upcoming requests fail
+   *
+   * @example
+   * ```typescript
+   * server.failNext({ type: 'rate-limit', retryAfter: 1 }, { path: '/v1/cache/query', times: 2 });
+   * ```
+   */
+  failNext(failure: FakeFailure, options: FailureOptions = {}): void {
+    this.failures.push({ failure, path: options.path, remaining: options.times ?? 1 });
+  }
+
+  /**
+   * Requests matching a method and path
+   */
+  findRequests(method: string, path: string | RegExp): RecordedRequest[] {
+    return this.requests.filter(request => request.method === method.toUpperCase() && matchesPath(request.path, path));
+  }
+
+  /**
+   * Return the last request matching a method and path, or throw listing what was received
+   */
+  assertRequested(method: string, path: string | RegExp): RecordedRequest {
+    const matches = this.findRequests(method, path);
+    if (matches.length === 0) {
+      const received = this.requests.map(request => `  ${request.method} ${request.path}`).join('\n') || '  (none)';
+      throw new Error(`Expected a ${method.toUpperCase()} ${path} request. Received:\n${received}`);
+    }
+    return matches[matches.length - 1];
+  }
+
+  /**
+   * Serve the fake API over HTTP (Node.js only)
+   *
+   * @returns the base URL to pass as the client's `baseUrl`
+   */
+  async listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    const http = await import('http');
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', async () => {
+        const url = new URL(req.url || '/', `http://${host}`);
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+          headers[name] = Array.isArray(value) ? value.join(', ') : value || '';
+        }
+
+        const outcome = await this.handle(req.method || 'GET', url, headers, Buffer.concat(chunks).toString('utf8'));
+        if (outcome === 'network') {
+          req.socket.destroy();
+        } else if (outcome !== 'hang') {
+          res.writeHead(outcome.status, outcome.headers);
+          res.end(outcome.body);
+        }
+      });
+    });
+
+    server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+
+    await new Promise<void>(resolve => server.listen(port, host, resolve));
+    this.httpServer = server;
+
+    return `http://${host}:${(server.address() as { port: number }).port}`;
+  }
+
+  /**
+   * Stop the HTTP server, dropping any hanging connections
+   */
+  async close(): Promise<void> {
+    const server = this.httpServer;
+    if (!server) {
+      return;
+    }
+
+    this.httpServer = undefined;
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handleFetch(input: string | URL | Request, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    if (init.signal?.aborted) {
+      throw abortError();
+    }
+
+    const outcome = await this.handle(init.method || 'GET', url, headers, typeof init.body === 'string' ? init.body : '');
+
+    if (outcome === 'network') {
+      throw new TypeError('fetch failed');
+    }
+    if (outcome === 'hang') {
+      return new Promise<Response>((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(abortError()));
+      });
+    }
+
+    return new Response(outcome.body, { status: outcome.status, headers: outcome.headers });
+  }
+
+  private async handle(method: string, url: URL, headers: Record<string, string>, rawBody: string): Promise<FakeOutcome> {
+    let body: any;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      return jsonReply(400, { message: 'Request body is not valid JSON' });
+    }
+
+    const request: RecordedRequest = {
+      method: method.toUpperCase(),
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams.entries()),
+      headers,
+      body
+    };
+    this.requests.push(request);
+
+    const failure = this.takeFailure(request.path);
+    if (failure) {
+      return this.fail(failure);
+    }
+
+    const apiKey = headers['x-api-key'];
+    if (!apiKey || (this.options.apiKey !== undefined && apiKey !== this.options.apiKey)) {
+      return jsonReply(401, { message: 'Invalid API key' });
+    }
+
+    try {
+      return await this.route(request);
+    } catch (error) {
+      const status = error instanceof VectorcacheAPIError && error.status ? error.status : 500;
+      return jsonReply(status, { message: (error as Error).message });
+    }
+  }
+
+  private takeFailure(path: string): FakeFailure | undefined {
+    const queued = this.failures.find(candidate => matchesPath(path, candidate.path));
+    if (!queued) {
+      return undefined;
+    }
+
+    if (--queued.remaining <= 0) {
+      this.failures = this.failures.filter(candidate => candidate !== queued);
+    }
+    return queued.failure;
+  }
+
+  private fail(failure: FakeFailure): FakeOutcome {
+    switch (failure.type) {
+      case 'rate-limit':
+        return jsonReply(
+          429,
+          { message: 'Rate limit exceeded' },
+          failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {}
+        );
+      case 'server-error':
+        return jsonReply(failure.status || 503, { message: failure.message || 'Service unavailable' });
+      case 'status':
+        return jsonReply(failure.status, failure.body ?? { message: `Injected ${failure.status}` });
+      case 'malformed-json':
+        return { status: 200, headers: { 'Content-Type': 'application/json' }, body: '{"response": "trunc' };
+      case 'timeout':
+        return 'hang';
+      case 'network':
+        return 'network';
+    }
+  }
+
+  private async route(request: RecordedRequest): Promise<FakeReply> {
+    const { method, path, body } = request;
+    const route = `${method} ${path}`;
+    let match: RegExpMatchArray | null;
+
+    if (route === 'GET /health') {
+      return jsonReply(200, { status: 'healthy', timestamp: new Date().toISOString() });
+    }
+    if (route === 'POST /v1/cache/query') {
+      const response = await this.query(body);
+      return body.stream ? this.streamReply(response) : jsonReply(200, response);
+    }
+    if (route === 'POST /v1/cache/query/batch') {
+      const results = [];
+      for (const item of body.requests || []) {
+        try {
+          results.push(await this.query(item));
+        } catch (error) {
+          results.push({ error: { status: (error as VectorcacheAPIError).status || 500, message: (error as Error).message } });
+        }
+      }
+      return jsonReply(200, { results });
+    }
+    if (route === 'POST /v1/cache/lookup') {
+      this.validateQuery(body);
+      const forced = this.forced.shift();
+      if (forced === 'miss') {
+        return jsonReply(200, { is_cache_hit: false, response_time_ms: 1, query_id: `query_${this.requests.length}` });
+      }
+      if (forced === 'hit') {
+        const hit = await this.forcedHit(body);
+        return jsonReply(200, { ...hit, response_time_ms: 1 });
+      }
+      return jsonReply(200, await this.backend.lookup(body, this.projectOf(body), body.similarity_threshold));
+    }
+    if (route === 'POST /v1/cache/store') {
+      this.validateQuery(body);
+      return jsonReply(200, await this.backend.store(body, this.projectOf(body), body.ttl_seconds));
+    }
+    if (route === 'POST /v1/cache/test') {
+      return jsonReply(200, await this.test(body));
+    }
+    if (route === 'POST /v1/cache/clear') {
+      return jsonReply(200, await this.backend.clearCache(body || {}));
+    }
+    if (route === 'POST /v1/cache/invalidate') {
+      return jsonReply(200, await this.backend.invalidate(body || {}, Boolean(body?.dry_run)));
+    }
+    if ((match = path.match(/^\/v1\/cache\/projects\/([^/]+)\/(stats|similar|entries|import)$/))) {
+      const projectId = decodeURIComponent(match[1]);
+      const resource = match[2];
+
+      if (method === 'GET' && resource === 'stats') {
+        return jsonReply(200, await this.backend.getCacheStats(projectId));
+      }
+      if (method === 'GET' && resource === 'similar') {
+        return jsonReply(200, await this.backend.findSimilarQueries(request.query.query || '', projectId));
+      }
+      if (method === 'POST' && resource === 'similar') {
+        return jsonReply(200, await this.backend.searchSimilar(body || {}, projectId));
+      }
+      if (method === 'GET' && resource === 'entries') {
+        return jsonReply(200, await this.backend.listEntries(projectId, this.listOptions(request.query)));
+      }
+      if (method === 'POST' && resource === 'import') {
+        return jsonReply(200, await this.backend.importEntries(body, projectId));
+      }
+    }
+    if ((match = path.match(/^\/v1\/cache\/entries\/([^/]+)$/))) {
+      const id = decodeURIComponent(match[1]);
+
+      if (method === 'GET') {
+        return jsonReply(200, await this.backend.getEntry(id));
+      }
+      if (method === 'PATCH') {
+        return jsonReply(200, await this.backend.updateEntry(id, body || {}));
+      }
+      if (method === 'DELETE') {
+        return jsonReply(200, await this.backend.deleteEntry(id));
+      }
+    }
+
+    return jsonReply(404, { message: `No fake route for ${route}` });
+  }
+
+  private validateQuery(body: SemanticQueryRequest): void {
+    const errors = getQueryRequestErrors(body);
+    if (errors.length > 0) {
+      throw new VectorcacheAPIError(`Invalid request: ${errors.map(e => `${e.field} ${e.message}`).join('; ')}`, 400);
+    }
+  }
+
+  private async query(
+    body: SemanticQueryRequest & { cache_mode?: CacheMode; similarity_threshold?: number; ttl_seconds?: number }
+  ): Promise<SemanticQueryResponse> {
+    this.validateQuery(body);
+    const forced = this.forced.shift();
+
+    if (forced === 'hit') {
+      const hit = await this.forcedHit(body);
+      return { ...hit, response: hit.response!, response_time_ms: 1, estimated_cost: 0 };
+    }
+
+    if (forced === 'miss') {
+      const result = await this.respond(body);
+      const { cache_entry_id } = await this.backend.store({ ...body, ...result }, this.projectOf(body));
+      return {
+        response: result.response,
+        is_cache_hit: false,
+        response_time_ms: 1,
+        tokens_used: result.tokens_used,
+        estimated_cost: result.estimated_cost,
+        cache_entry_id,
+        query_id: `query_${this.requests.length}`
+      };
+    }
+
+    return this.backend.query(body, this.projectOf(body), {
+      mode: body.cache_mode || 'read-write',
+      similarity_threshold: body.similarity_threshold,
+      ttl_seconds: body.ttl_seconds
+    });
+  }
+
+  private projectOf(body: SemanticQueryRequest & { project_id?: string }): string {
+    return body.project_id || this.projectId;
+  }
+
+  /**
+   * Hit on the closest entry whatever its similarity, or on a made-up answer if the cache is empty
+   */
+  private async forcedHit(body: SemanticQueryRequest) {
+    const similar = await this.backend.findSimilarQueries(requestToText(body), this.projectOf(body), 1);
+    const closest = similar.similar_entries[0];
+    const entry = closest ? await this.backend.getEntry(closest.id) : undefined;
+
+    return {
+      is_cache_hit: true,
+      response: entry ? entry.response_text : (await this.respond(body)).response,
+      similarity_score: closest ? closest.similarity : 1,
+      cache_entry_id: entry?.id,
+      query_id: `query_${this.requests.length}`
+    };
+  }
+
+  private async test(body: CacheTestRequest): Promise<CacheTestResponse> {
+    if (!body?.project_id || !body.prompt) {
+      throw new VectorcacheAPIError('project_id and prompt are required', 400);
+    }
+
+    const startTime = Date.now();
+    const request: SemanticQueryRequest = { query: body.prompt, context: body.context, model: body.model };
+    const threshold = body.similarity_threshold ?? this.options.similarityThreshold ?? 0.85;
+    const similar = await this.backend.findSimilarQueries(body.prompt, body.project_id, 5);
+    const closest = similar.similar_entries[0];
+    const forced = this.forced.shift();
+    const hit = forced ? forced === 'hit' : Boolean(closest && closest.similarity >= threshold);
+
+    let response: string;
+    let costSpent: number | undefined;
+    let entryId = closest?.id;
+
+    if (hit) {
+      response = closest ? (await this.backend.getEntry(closest.id)).response_text : (await this.respond(request)).response;
+    } else {
+      const result = await this.respond(request);
+      response = result.response;
+      costSpent = result.estimated_cost;
+      entryId = (await this.backend.store({ ...request, ...result }, body.project_id)).cache_entry_id;
+    }
+
+    const steps: WorkflowStep[] = [
+      { id: 1, name: 'Generate embedding', status: 'success', duration: 1, icon: 'embed' },
+      {
+        id: 2,
+        name: 'Search similar entries',
+        status: 'success',
+        duration: 1,
+        details: `${similar.similar_entries.length} candidates`,
+        icon: 'search'
+      },
+      { id: 3, name: 'Call LLM', status: hit ? 'skipped' : 'success', duration: hit ? 0 : 1, icon: 'llm' },
+      { id: 4, name: 'Store response', status: hit ? 'skipped' : 'success', duration: hit ? 0 : 1, icon: 'store' }
+    ];
+
+    return {
+      cache_hit: hit,
+      similarity_score: closest?.similarity,
+      response_time: Date.now() - startTime,
+      ...(hit ? { cost_saved: 0.001 } : { cost_spent: costSpent }),
+      response,
+      cache_entry_id: entryId,
+      similar_entries: similar.similar_entries.map(entry => ({
+        id: entry.id,
+        original_query: entry.original_query,
+        similarity: entry.similarity,
+        created_at: entry.created_at
+      })),
+      ...(body.include_debug !== false && { workflow_steps: steps })
+    };
+  }
+
+  private listOptions(query: Record<string, string>): ListEntriesOptions {
+    return {
+      cursor: query.cursor,
+      limit: query.limit ? Number(query.limit) : undefined,
+      sortBy: query.sort_by as ListEntriesOptions['sortBy'],
+      sortOrder: query.sort_order as ListEntriesOptions['sortOrder'],
+      filter: {
+        query: query.query,
+        expired: query.expired === undefined ? undefined : query.expired === 'true',
+        metadata: query.metadata ? JSON.parse(query.metadata) : undefined
+      }
+    };
+  }
+
+  /**
+   * Reply as Server-Sent Events, one delta per word
+   */
+  private streamReply(response: SemanticQueryResponse): FakeReply {
+    const deltas = response.response.split(/(?<=\s)/).map(delta => `event: delta\ndata: ${JSON.stringify({ delta })}\n\n`);
+
+    return {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+      body: `${deltas.join('')}event: done\ndata: ${JSON.stringify(response)}\n\n`
+    };
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * OpenTelemetry integration for Vectorcache SDK
+ * Works with any tracer that has the OpenTelemetry API shape; no dependency is required
+ */
+
+import { Tracer, TracingSpan } from './types';
+
+/** OpenTelemetry SpanStatusCode values */
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/** Response fields copied onto the span, and the attribute names they get */
+const CACHE_ATTRIBUTES: Record<string, string> = {
+  is_cache_hit: 'vectorcache.cache_hit',
+  similarity_score: 'vectorcache.similarity_score',
+  tokens_used: 'vectorcache.tokens_used',
+  estimated_cost: 'vectorcache.estimated_cost',
+  cache_entry_id: 'vectorcache.cache_entry_id',
+  query_id: 'vectorcache.query_id'
+};
+
+/**
+ * Start a span for one API request, including its retries
+ */
+export function startRequestSpan(
+  tracer: Tracer,
+  method: string,
+  url: string,
+  endpoint: string,
+  attributes: { projectId?: string; model?: string }
+): TracingSpan {
+  const path = endpoint.split('?')[0];
+
+  return tracer.startSpan(`Vectorcache ${method} ${path}`, {
+    attributes: {
+      'http.request.method': method,
+      // The query string can carry prompts, so it is left out
+      'url.full': url.split('?')[0],
+      'vectorcache.endpoint': path,
+      ...(attributes.projectId && { 'vectorcache.project_id': attributes.projectId }),
+      ...(attributes.model && { 'vectorcache.model': attributes.model })
+    }
+  });
+}
+
+/**
+ * Record the outcome of a request on its span and end it
+ */
+export function endRequestSpan(span: TracingSpan, attempts: number, result: { body?: any; error?: Error & { status?: number } }): void {
+  span.setAttribute('vectorcache.attempts', attempts);
+
+  if (result.error) {
+    span.setAttribute('error.type', result.error.name);
+    if (result.error.status !== undefined) {
+      span.setAttribute('http.response.status_code', result.error.status);
+    }
+    span.recordException(result.error);
+    span.setStatus({ code: SPAN_STATUS_ERROR, message: result.error.message });
+  } else {
+    for (const [field, attribute] of Object.entries(CACHE_ATTRIBUTES)) {
+      const value = result.body?.[field];
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        span.setAttribute(attribute, value);
+      }
+    }
+    span.setStatus({ code: SPAN_STATUS_OK });
+  }
+
+  span.end();
+}
@@ -44,8 +44,76 @@ export interface SemanticQueryResponse {
   cache_entry_id?: string;
   /** Unique query ID for tracking */
   query_id: string;
+  /** Whether this response was served from the in-process L1 cache */
+  is_local_hit?: boolean;
+  /** Whether this response was shared with an identical in-flight query */
+  is_coalesced?: boolean;
+  /** Whether Vectorcache was unavailable and the fallback LLM answered directly */
+  degraded?: boolean;
+  /** Cache policy applied to the query, when a policy is configured */
+  cache_policy?: AppliedCachePolicy;
 }
 
+export interface CacheLookupResponse {
+  /** Whether a cached response was found */
+  is_cache_hit: boolean;
+  /** The cached response (hits only) */
+  response?: string;
+  /** Similarity score for cache hits */
+  similarity_score?: number;
+  /** Cache entry ID for hits */
+  cache_entry_id?: string;
+  /** Lookup time in milliseconds */
+  response_time_ms: number;
+  /** Unique query ID for tracking */
+  query_id: string;
+  /** Cache policy applied to the lookup, when a policy is configured */
+  cache_policy?: AppliedCachePolicy;
+}
+
+export interface CacheStoreRequest extends SemanticQueryRequest {
+  /** Response generated by the caller's own LLM call */
+  response: string;
+  /** Number of tokens the LLM call used */
+  tokens_used?: number;
+  /** Cost of the LLM call in USD */
+  estimated_cost?: number;
+}
+
+export interface CacheStoreResponse {
+  /** ID of the created cache entry; empty when the store was skipped */
+  cache_entry_id: string;
+  /** Whether the response was kept out of the cache, e.g. by a read-only or bypass policy */
+  skipped?: boolean;
+  /** Cache policy applied to the store, when a policy is configured */
+  cache_policy?: AppliedCachePolicy;
+}
+
+/** Cache metadata added to responses of wrapped LLM clients */
+export interface VectorcacheCompletionMetadata {
+  /** Whether the completion was served from the cache */
+  is_cache_hit: boolean;
+  /** Similarity score for cache hits */
+  similarity_score?: number;
+  /** Cache entry ID for hits */
+  cache_entry_id?: string;
+  /** Unique query ID for tracking */
+  query_id?: string;
+}
+
+/** Event yielded by queryStream() */
+export type QueryStreamEvent =
+  | {
+    /** A piece of response text */
+    type: 'delta';
+    delta: string;
+  }
+  | {
+    /** Final event with the complete response and cache metadata */
+    type: 'done';
+    response: SemanticQueryResponse;
+  };
+
 export interface CacheEntry {
   /** Cache entry ID */
   id: string;
@@ -69,6 +137,8 @@ export interface CacheEntry {
   cost_saved: number;
   /** Entry metadata */
   metadata?: Record<string, any>;
+  /** Model that produced the response */
+  model?: string;
   /** Creation timestamp */
   created_at: string;
   /** Last cache hit timestamp */
@@ -77,6 +147,104 @@ export interface CacheEntry {
   expires_at: string;
 }
 
+export type CacheEntrySortField = 'created_at' | 'last_hit_at' | 'hit_count' | 'expires_at';
+
+export interface CacheEntryFilter {
+  /** Only entries whose query text contains this string (case-insensitive) */
+  query?: string;
+  /** Only entries whose metadata has all of these key/value pairs */
+  metadata?: Record<string, string | number | boolean>;
+  /** true for expired entries only, false for active entries only */
+  expired?: boolean;
+}
+
+export interface ListEntriesOptions extends RequestOptions {
+  /** Cursor from a previous page's `next_cursor` */
+  cursor?: string;
+  /** Entries per page (1-1000, default: 100) */
+  limit?: number;
+  /** Field to sort by (default: 'created_at') */
+  sortBy?: CacheEntrySortField;
+  /** Sort direction (default: 'desc') */
+  sortOrder?: 'asc' | 'desc';
+  /** Restrict the entries returned */
+  filter?: CacheEntryFilter;
+}
+
+export interface CacheEntryPage {
+  /** Entries in this page */
+  entries: CacheEntry[];
+  /** Cursor for the next page, absent on the last page */
+  next_cursor?: string;
+}
+
+export interface UpdateCacheEntryRequest {
+  /** Replacement cached response */
+  response_text?: string;
+  /** Replacement metadata */
+  metadata?: Record<string, any>;
+  /** New expiration timestamp (ISO 8601) */
+  expires_at?: string;
+}
+
+export interface DeleteCacheEntryResponse {
+  /** ID of the deleted entry */
+  id: string;
+  /** Whether the entry was deleted */
+  deleted: boolean;
+}
+
+/** A cache entry as written to a JSONL snapshot; embeddings may be left out */
+export type CacheSnapshotRecord = Omit<CacheEntry, 'embedding'> & { embedding?: number[] };
+
+export interface ExportCacheOptions extends Omit<ListEntriesOptions, 'cursor'> {
+  /** Include embedding vectors in the snapshot (default: true) */
+  includeEmbeddings?: boolean;
+}
+
+export interface ExportCacheResult {
+  /** Number of entries written */
+  entries_exported: number;
+}
+
+export interface ImportCacheOptions extends RequestOptions {
+  /** What to do with entries whose ID already exists (default: 'skip') */
+  onConflict?: 'skip' | 'overwrite' | 'fail';
+  /** Recompute embeddings instead of using the ones in the snapshot (default: false) */
+  reembed?: boolean;
+  /** Entries uploaded per request (1-1000, default: 100) */
+  chunkSize?: number;
+  /** Checkpoint from a previous, interrupted import; that many records are skipped */
+  resumeFrom?: number;
+  /** Called after every uploaded chunk with the running totals */
+  onProgress?: (progress: ImportCacheResult) => void;
+}
+
+export interface ImportCacheResult {
+  /** Entries created or overwritten */
+  imported: number;
+  /** Entries skipped because their ID already exists */
+  skipped: number;
+  /** Number of source records fully processed; pass as `resumeFrom` to resume */
+  checkpoint: number;
+}
+
+export interface CacheImportRequest {
+  /** Entries to import */
+  entries: CacheSnapshotRecord[];
+  /** What to do with entries whose ID already exists */
+  on_conflict: 'skip' | 'overwrite' | 'fail';
+  /** Recompute embeddings instead of using the ones provided */
+  reembed: boolean;
+}
+
+export interface CacheImportResponse {
+  /** Entries created or overwritten */
+  imported: number;
+  /** Entries skipped because their ID already exists */
+  skipped: number;
+}
+
 export interface CacheStatsResponse {
   /** Project ID */
   project_id: string;
@@ -99,7 +267,7 @@ export interface CacheStatsResponse {
 }
 
 export interface ClearCacheRequest {
-  /** Project ID to clear cache for (all if not specified) */
+  /** Project ID to clear cache for (defaults to the client's project; all if neither is set) */
   project_id?: string;
   /** Only clear expired entries */
   expired_only?: boolean;
@@ -116,6 +284,50 @@ export interface ClearCacheResponse {
   operation_time_ms: number;
 }
 
+/** Condition on one metadata value: a value it must equal, or an operator */
+export type MetadataCondition =
+  | string
+  | number
+  | boolean
+  | null
+  | { $eq: string | number | boolean | null }
+  | { $in: Array<string | number | boolean | null> }
+  | { $exists: boolean };
+
+export interface SemanticInvalidation {
+  /** Query to compare cached queries against */
+  query: string;
+  /** Entries at least this similar to the query match (0.0-1.0) */
+  min_similarity: number;
+  /** Only entries cached with this context */
+  context?: string;
+}
+
+export interface InvalidateRequest extends ClearCacheRequest {
+  /** Entries whose metadata meets every condition, e.g. `{ source_doc: 'pricing-v3' }` */
+  metadata?: Record<string, MetadataCondition>;
+  /** Entries produced by this model, or by any of these models */
+  model?: string | string[];
+  /** Entries whose query is semantically close to a query */
+  similar_to?: SemanticInvalidation;
+}
+
+export interface InvalidateOptions extends RequestOptions {
+  /** Return the matching entries without deleting anything (default: false) */
+  dryRun?: boolean;
+}
+
+export interface InvalidateResponse extends ClearCacheResponse {
+  /** Number of entries matching the filter */
+  entries_matched: number;
+  /** IDs of the deleted entries (empty for a dry run) */
+  deleted_ids: string[];
+  /** Whether this was a dry run */
+  dry_run: boolean;
+  /** The matching entries, returned by dry runs only */
+  entries?: CacheEntry[];
+}
+
 export interface SimilarEntry {
   /** Cache entry ID */
   id: string;
@@ -125,20 +337,64 @@ export interface SimilarEntry {
   similarity: number;
   /** Creation timestamp */
   created_at: string;
+  /** Cached response, returned when requested */
+  response_text?: string;
+  /** Entry metadata */
+  metadata?: Record<string, any>;
 }
 
 export interface SimilarQueriesResponse {
   /** Original query */
   query: string;
   /** List of similar cache entries */
-  similar_entries: Record<string, any>[];
+  similar_entries: SimilarEntry[];
   /** Total number of similar entries found */
   total_found: number;
 }
 
+export interface SearchSimilarOptions extends RequestOptions {
+  /** Text to search for (use either query or messages) */
+  query?: string;
+  /** Conversation to search for */
+  messages?: Message[];
+  /** Only entries cached with this context */
+  context?: string;
+  /** Only entries at least this similar (0.0-1.0) */
+  minSimilarity?: number;
+  /** Page size (default: 10) */
+  limit?: number;
+  /** Cursor returned by the previous page */
+  cursor?: string;
+  /** Only entries whose metadata meets every condition */
+  metadataFilter?: Record<string, MetadataCondition>;
+  /** Include the cached response text (default: false) */
+  includeResponse?: boolean;
+}
+
+/** Request body of a similarity search */
+export interface SimilarSearchRequest {
+  query?: string;
+  messages?: Message[];
+  context?: string;
+  min_similarity?: number;
+  limit?: number;
+  cursor?: string;
+  metadata_filter?: Record<string, MetadataCondition>;
+  include_response?: boolean;
+}
+
+export interface SimilarEntryPage {
+  /** Matching entries, most similar first */
+  entries: SimilarEntry[];
+  /** Number of matching entries across all pages */
+  total_found: number;
+  /** Cursor for the next page; absent on the last page */
+  next_cursor?: string;
+}
+
 export interface CacheTestRequest {
-  /** Project ID to test cache for */
-  project_id: string;
+  /** Project ID to test cache for (defaults to the client's project) */
+  project_id?: string;
   /** Test prompt */
   prompt: string;
   /** Optional context */
@@ -188,14 +444,297 @@ export interface CacheTestResponse {
 }
 
 export interface VectorcacheConfig {
-  /** Your Vectorcache API key */
-  apiKey: string;
+  /** Your Vectorcache API key (not needed in local mode) */
+  apiKey?: string;
   /** Base URL for the API (defaults to production) */
   baseUrl?: string;
   /** Default project ID for queries */
   projectId?: string;
+  /** Pick the project of a query, lookup or store, e.g. from its metadata; return undefined for the default */
+  resolveProject?: (request: SemanticQueryRequest) => string | undefined;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Retry policy for failed requests (retries are disabled if not set) */
+  retry?: RetryPolicy | false;
+  /** In-process exact-match cache in front of query() (disabled if not set) */
+  l1Cache?: L1CacheOptions | boolean;
+  /** Share one in-flight request between concurrent identical queries (default: false) */
+  coalesceRequests?: boolean;
+  /** Logger to use instead of the console (pino/winston-style object) */
+  logger?: Logger;
+  /** Include request and response bodies in debug logs (default: true) */
+  logBodies?: boolean;
+  /** Hooks run around every API request, in order */
+  interceptors?: Interceptor[];
+  /** Check response payloads against the declared interfaces (default: false) */
+  strictResponses?: boolean;
+  /** Stop calling the API while it is failing (disabled if not set) */
+  circuitBreaker?: CircuitBreakerOptions | boolean;
+  /** Call the LLM directly when the API is unavailable or the circuit is open */
+  fallback?: LLMProvider;
+  /** Rules deciding whether queries read and write the cache (read-write if not set) */
+  cachePolicy?: CachePolicy;
+  /** Detect PII in prompts before they are sent or logged; `true` masks with the built-in detectors */
+  piiRedaction?: PiiRedactionOptions | boolean;
+  /** Encrypt cached responses and metadata with your own keys (not available in local mode) */
+  encryption?: EncryptionOptions;
+  /** Track query metrics in the client (default: true) */
+  metrics?: boolean;
+  /** OpenTelemetry tracer; a span is created for every API request */
+  tracer?: Tracer;
+  /** fetch implementation to use instead of the global one, e.g. a test double */
+  fetch?: typeof fetch;
+  /** Record API traffic to a cassette file or replay it offline */
+  recordReplay?: RecordReplayOptions;
+  /** Run fully offline against an in-process semantic cache instead of the API */
+  local?: LocalBackendOptions;
+}
+
+/** Computes the embedding vector for a piece of text */
+export type EmbeddingProvider = (text: string) => Promise<number[]>;
+
+/** Calls the LLM on a local cache miss */
+export type LLMProvider = (request: SemanticQueryRequest) => Promise<LLMResult>;
+
+export interface LLMResult {
+  /** Generated response text */
+  response: string;
+  /** Number of tokens used */
+  tokens_used?: number;
+  /** Estimated cost in USD */
+  estimated_cost?: number;
+}
+
+export interface LocalBackendOptions {
+  /** Embedding function used to index and match queries */
+  embed: EmbeddingProvider;
+  /** LLM function called on cache misses */
+  llm: LLMProvider;
+  /** Similarity threshold for cache hits (0.0-1.0, default: 0.85) */
+  similarityThreshold?: number;
+  /** Lifetime of cache entries in milliseconds (default: 7 days) */
+  ttlMs?: number;
+  /** JSON file to persist the index to (Node.js only, in-memory if not set) */
+  persistPath?: string;
+  /** How long hit statistics may wait before they are written to the file, in ms (default: 1000) */
+  persistDebounceMs?: number;
+}
+
+/**
+ * How a query uses the cache:
+ * - `read-write`: serve hits and store misses (the default)
+ * - `read-only`: serve hits, never store
+ * - `write-only`: always call the LLM and store the answer
+ * - `bypass`: always call the LLM and store nothing
+ */
+export type CacheMode = 'read-write' | 'read-only' | 'write-only' | 'bypass';
+
+export interface CachePolicyRule {
+  /** Name reported in `cache_policy.rule` when the rule applies */
+  name?: string;
+  /** Only requests whose temperature is within this range */
+  temperature?: { min?: number; max?: number };
+  /** Only requests for this model, or any of these models */
+  model?: string | string[];
+  /** Only requests whose metadata meets every condition */
+  metadata?: Record<string, MetadataCondition>;
+  /** Only requests with this many messages (a plain query counts as one) */
+  messageCount?: { min?: number; max?: number };
+  /** Only requests for which this returns true */
+  when?: (request: SemanticQueryRequest) => boolean;
+  /** Cache mode for matching requests */
+  mode: CacheMode;
+  /** Similarity needed for a hit (0.0-1.0) */
+  similarityThreshold?: number;
+  /** Lifetime of entries stored by matching requests, in seconds */
+  ttlSeconds?: number;
+}
+
+export interface CachePolicy {
+  /** Rules checked in order; the first rule whose conditions all hold applies */
+  rules?: CachePolicyRule[];
+  /** Mode when no rule applies (default: 'read-write') */
+  defaultMode?: CacheMode;
+  /** Similarity threshold when the applied rule does not set one */
+  similarityThreshold?: number;
+  /** Entry lifetime in seconds when the applied rule does not set one */
+  ttlSeconds?: number;
+}
+
+/** The cache policy applied to a query */
+export interface AppliedCachePolicy {
+  mode: CacheMode;
+  /** Name (or index) of the rule that applied; absent when the default applied */
+  rule?: string;
+  similarity_threshold?: number;
+  ttl_seconds?: number;
+}
+
+export interface EncryptionKey {
+  /** Key ID stored with every ciphertext; must not contain ':' */
+  id: string;
+  /** 256-bit AES key, raw or base64-encoded */
+  key: Uint8Array | string;
+}
+
+export interface EncryptionOptions {
+  /** Keys that can decrypt entries; keep retired keys here until their entries expire */
+  keys: EncryptionKey[];
+  /** Key that encrypts new entries (default: the first key) */
+  activeKeyId?: string;
+  /** Called on cache misses, so answers are encrypted before they reach the cache */
+  llm: LLMProvider;
+  /** Return values stored before encryption was enabled instead of throwing VectorcacheDecryptionError (default: false) */
+  allowPlaintext?: boolean;
+}
+
+/** Built-in PII detectors */
+export type BuiltInPiiDetector = 'email' | 'phone' | 'credit-card' | 'name';
+
+/** A span of PII found in a text, as [start, end) offsets */
+export interface PiiSpan {
+  start: number;
+  end: number;
+}
+
+export interface CustomPiiDetector {
+  /** Label for findings, e.g. 'employee-id'; placeholders use it upper-cased */
+  type: string;
+  /** Pattern matching the PII; the global flag is added if missing */
+  pattern?: RegExp;
+  /** Function returning the spans of PII in a text */
+  detect?: (text: string) => PiiSpan[];
+}
+
+/**
+ * What to do with prompts that contain PII:
+ * - `mask`: replace each finding with a placeholder such as `[EMAIL]`
+ * - `hash`: replace each finding with a keyed hash such as `[EMAIL:3f2a9c0d1b7e]`
+ * - `reject`: throw `VectorcacheValidationError` without sending anything
+ * - `bypass-cache`: send the prompt unchanged but neither read nor write the cache
+ */
+export type PiiRedactionMode = 'mask' | 'hash' | 'reject' | 'bypass-cache';
+
+export interface PiiRedactionOptions {
+  /** Detectors to run (default: all built-in detectors) */
+  detectors?: Array<BuiltInPiiDetector | CustomPiiDetector>;
+  /** What to do when PII is found (default: 'mask') */
+  mode?: PiiRedactionMode;
+  /** Number masked placeholders, e.g. `[EMAIL_1]`, and put the original values back into responses */
+  tokenize?: boolean;
+  /** Secret key for the HMAC of `hash` mode; required in that mode */
+  hashSalt?: string;
+  /** Called for every request in which PII was found */
+  onRedaction?: (event: PiiRedactionEvent) => void;
+}
+
+export interface PiiFinding {
+  /** Field the PII was found in, e.g. 'messages[1].content' */
+  field: string;
+  /** Detector that found it */
+  type: string;
+  /** Number of occurrences */
+  count: number;
+}
+
+/** Audit record of a redaction; never contains the PII itself */
+export interface PiiRedactionEvent {
+  /** Action taken for the request */
+  action: PiiRedactionMode;
+  findings: PiiFinding[];
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Failure rate (0.0-1.0) that opens the circuit (default: 0.5) */
+  failureThreshold?: number;
+  /** Requests needed in the window before the failure rate is evaluated (default: 10) */
+  minimumRequests?: number;
+  /** Length of the rolling window in milliseconds (default: 60000) */
+  windowMs?: number;
+  /** How long the circuit stays open before a health probe (default: 30000) */
+  openDurationMs?: number;
+  /** Timeout of the health probe in milliseconds (default: 5000) */
+  probeTimeoutMs?: number;
+  /** Called whenever the circuit changes state */
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export type RecordReplayMode = 'record' | 'replay' | 'passthrough';
+
+/** Request half of a recorded exchange */
+export interface CassetteRequest {
+  method: string;
+  /** Path relative to the base URL, including the query string */
+  endpoint: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/** Response half of a recorded exchange */
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text if the body is not JSON */
+  body?: any;
+}
+
+export interface CassetteExchange {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+/** Contents of a cassette file */
+export interface Cassette {
+  version: 1;
+  exchanges: CassetteExchange[];
+}
+
+export interface RecordReplayOptions {
+  /** Record real traffic, replay recordings without network access, or do neither */
+  mode: RecordReplayMode;
+  /** Path of the cassette file (Node.js only) */
+  cassette: string;
+  /**
+   * Request parts that must be equal for a recording to match
+   * (default: ['method', 'endpoint', 'body']), or a custom matcher
+   */
+  match?: Array<'method' | 'endpoint' | 'body'> | ((request: CassetteRequest, recorded: CassetteRequest) => boolean);
+  /** Body fields to redact in requests and responses, as dot paths, e.g. 'metadata.user_id' */
+  redactFields?: string[];
+  /** Header names to redact in addition to X-API-Key */
+  redactHeaders?: string[];
+}
+
+export interface L1CacheOptions {
+  /** Maximum number of responses kept in memory (default: 1000) */
+  maxEntries?: number;
+  /** Time to live for each response in milliseconds (default: 60000) */
+  ttlMs?: number;
+}
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each attempt (default: 2) */
+  backoffMultiplier?: number;
+  /** Randomize delays to avoid synchronized retries (default: true) */
+  jitter?: boolean;
+  /** Error classes that are considered retryable */
+  retryOn?: Array<new (...args: any[]) => Error>;
+  /** HTTP statuses of server errors that are retried (default: 502, 503, 504) */
+  retryableStatuses?: number[];
+  /** Wait for the Retry-After interval of rate limit errors (default: true) */
+  respectRetryAfter?: boolean;
+  /** Also retry non-idempotent calls such as clearCache (default: false) */
+  retryNonIdempotent?: boolean;
+  /** Called before each retry with the error, the failed attempt number and the delay */
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
 }
 
 export interface VectorcacheError {
@@ -209,11 +748,208 @@ export interface VectorcacheError {
   details?: any;
 }
 
+export interface BatchQueryOptions extends RequestOptions {
+  /** Maximum number of queries, or bulk chunks of 100 queries, in flight at once (default: 5) */
+  concurrency?: number;
+  /** Stop starting new queries after the first failure (default: false) */
+  stopOnError?: boolean;
+  /** Use the server's bulk endpoint when available (default: true) */
+  bulk?: boolean;
+}
+
+export type BatchItemResult =
+  | {
+    /** Position of the request in the batch */
+    index: number;
+    status: 'fulfilled';
+    response: SemanticQueryResponse;
+  }
+  | {
+    /** Position of the request in the batch */
+    index: number;
+    status: 'rejected';
+    /** Typed SDK error, e.g. VectorcacheRateLimitError */
+    error: Error & VectorcacheError;
+  }
+  | {
+    /** Position of the request in the batch (not sent because of stopOnError) */
+    index: number;
+    status: 'skipped';
+  };
+
+export interface BatchTotals {
+  /** Number of cache hits */
+  hits: number;
+  /** Number of cache misses */
+  misses: number;
+  /** Number of failed queries */
+  errors: number;
+  /** Number of queries not sent because of stopOnError */
+  skipped: number;
+  /** Total tokens used */
+  tokens_used: number;
+  /** Total estimated cost in USD */
+  estimated_cost: number;
+}
+
+export interface BatchQueryResponse {
+  /** Per-request results, in request order */
+  results: BatchItemResult[];
+  /** Aggregate totals across the batch */
+  totals: BatchTotals;
+}
+
+export interface WarmCacheOptions extends RequestOptions {
+  /** Maximum number of prompts in flight at once (default: 5) */
+  concurrency?: number;
+  /** Stop starting new prompts once the summed estimated_cost reaches this many USD */
+  budgetUsd?: number;
+  /** Skip prompts whose closest cached query is at least this similar (0.0-1.0) */
+  skipIfSimilarAbove?: number;
+  /** Called after every prompt with the running totals */
+  onProgress?: (progress: WarmCacheProgress) => void;
+}
+
+export interface WarmCacheResult {
+  /** Prompts read from the source */
+  processed: number;
+  /** Prompts sent to the LLM and stored (cache misses) */
+  warmed: number;
+  /** Prompts that were already cached (cache hits) */
+  cached: number;
+  /** Prompts skipped because a similar query was already cached */
+  skipped: number;
+  /** Prompts that failed */
+  errors: number;
+  /** Total estimated cost in USD */
+  estimated_cost: number;
+  /** Whether warming stopped early because the budget was reached */
+  budget_exhausted: boolean;
+}
+
+export interface WarmCacheProgress extends WarmCacheResult {
+  /** The prompt that was just handled */
+  request: SemanticQueryRequest;
+  /** What happened to it */
+  outcome: 'warmed' | 'cached' | 'skipped' | 'failed';
+  /** The error, when the outcome is 'failed' */
+  error?: Error & VectorcacheError;
+}
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'none';
 
+export interface Logger {
+  debug(message: string, data?: any): void;
+  info(message: string, data?: any): void;
+  warn(message: string, data?: any): void;
+  error(message: string, data?: any): void;
+}
+
+export interface InterceptorRequest {
+  /** HTTP method */
+  method: string;
+  /** API endpoint path, e.g. '/v1/cache/query' */
+  endpoint: string;
+  /** Full request URL */
+  url: string;
+  /** Request headers (mutable) */
+  headers: Record<string, string>;
+  /** Request body before serialization (mutable) */
+  body?: any;
+  /** 1-based attempt number when retries are enabled */
+  attempt: number;
+}
+
+export interface InterceptorResponse {
+  /** The request that produced this response */
+  request: InterceptorRequest;
+  /** HTTP status code */
+  status: number;
+  /** Time from sending the request to receiving the body in milliseconds */
+  durationMs: number;
+  /** Parsed response body */
+  body: any;
+}
+
+export interface Interceptor {
+  /** Called before each request attempt; may mutate headers and body */
+  onRequest?: (request: InterceptorRequest) => void | Promise<void>;
+  /** Called for every HTTP response, successful or not */
+  onResponse?: (response: InterceptorResponse) => void | Promise<void>;
+  /**
+   * Called with the final error once retries are exhausted. Throw to replace
+   * the error, or return a value other than `undefined` to swallow it and
+   * resolve the request with that value.
+   */
+  onError?: (error: Error & VectorcacheError, request: InterceptorRequest) => any;
+}
+
+export interface HistogramSnapshot {
+  /** Cumulative counts of observations at or below each upper bound */
+  buckets: Array<{ le: number; count: number }>;
+  /** Sum of all observations */
+  sum: number;
+  /** Number of observations */
+  count: number;
+}
+
+export interface MetricsSeries {
+  /** Project the queries were made in */
+  project: string;
+  /** Model requested by the queries */
+  model: string;
+  /** Number of cache hits */
+  hits: number;
+  /** Number of cache misses */
+  misses: number;
+  /** Failed queries by error class, e.g. { VectorcacheTimeoutError: 2 } */
+  errors: Record<string, number>;
+  /** Total tokens used */
+  tokens_used: number;
+  /** Total estimated cost in USD */
+  estimated_cost: number;
+  /** Server-reported response time */
+  response_time_ms: HistogramSnapshot;
+  /** Wall-clock time measured by the client, including network and retries */
+  wall_time_ms: HistogramSnapshot;
+  /** Similarity score of cache hits */
+  similarity_score: HistogramSnapshot;
+}
+
+export interface MetricsSnapshot {
+  /** One series per project and model */
+  series: MetricsSeries[];
+  /** When the snapshot was taken */
+  collected_at: string;
+}
+
+/** Minimal structural type of an OpenTelemetry span */
+export interface TracingSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  recordException(exception: Error): unknown;
+  /** `code` follows OpenTelemetry's SpanStatusCode: 1 = OK, 2 = ERROR */
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/** Minimal structural type of an OpenTelemetry tracer, e.g. `trace.getTracer('vectorcache')` */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: Record<string, string | number | boolean> }): TracingSpan;
+}
+
 export interface RequestOptions {
   /** Override default project ID for this request */
   projectId?: string;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Signal to cancel the request; cancellation rejects with VectorcacheAbortError */
+  signal?: AbortSignal;
+  /** Override the client retry policy for this request (`false` disables retries) */
+  retry?: RetryPolicy | false;
+  /** Skip the L1 cache for this request (the response is still stored) */
+  bypassL1Cache?: boolean;
+  /** Set to false to opt this query out of request coalescing */
+  coalesce?: boolean;
+  /** Cache policy for this query, replacing the client's; a mode is shorthand for `{ defaultMode }` */
+  cachePolicy?: CachePolicy | CacheMode;
 }
\ No newline at end of file
@@ -0,0 +1,469 @@
+/**
+ * Request and response validation for Vectorcache SDK
+ */
+
+import {
+  CacheStoreRequest,
+  CacheTestRequest,
+  ClearCacheRequest,
+  InvalidateRequest,
+  ListEntriesOptions,
+  SearchSimilarOptions,
+  SemanticQueryRequest,
+  UpdateCacheEntryRequest
+} from './types';
+
+import { VectorcacheSchemaError, VectorcacheValidationError } from './errors';
+
+export interface FieldError {
+  /** Path of the invalid field, e.g. 'messages[1].role' */
+  field: string;
+  /** What is wrong with it */
+  message: string;
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+export interface ResponseSchema {
+  /** Fields that must be present, with their types */
+  required: Record<string, FieldType>;
+  /** Fields that may be missing or null, with their types */
+  optional?: Record<string, FieldType>;
+  /** Schemas for the items of array fields */
+  items?: Record<string, ResponseSchema>;
+}
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant'];
+
+/** Largest `max_tokens` the API accepts on a query */
+export const MAX_TOKENS_LIMIT = 4000;
+
+const METADATA_OPERATORS = ['$eq', '$in', '$exists'];
+
+function checkRange(
+  errors: FieldError[],
+  field: string,
+  value: unknown,
+  min: number,
+  max: number,
+  integer: boolean = false
+): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    errors.push({ field, message: 'must be a number' });
+  } else if (integer && !Number.isInteger(value)) {
+    errors.push({ field, message: 'must be an integer' });
+  } else if (value < min || value > max) {
+    errors.push({ field, message: `must be between ${min} and ${max}` });
+  }
+}
+
+function checkOptionalString(errors: FieldError[], field: string, value: unknown): void {
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    errors.push({ field, message: 'must be a string' });
+  }
+}
+
+function checkMetadataFilter(errors: FieldError[], field: string, filter: unknown): void {
+  if (filter === undefined) {
+    return;
+  }
+  if (typeof filter !== 'object' || filter === null) {
+    errors.push({ field, message: 'must be an object' });
+    return;
+  }
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (condition === null || typeof condition !== 'object') {
+      continue;
+    }
+
+    const operators = Object.keys(condition);
+    if (operators.length !== 1 || !METADATA_OPERATORS.includes(operators[0])) {
+      errors.push({ field: `${field}.${key}`, message: `must be a value or one of ${METADATA_OPERATORS.join(', ')}` });
+    } else if ('$in' in condition && !Array.isArray(condition.$in)) {
+      errors.push({ field: `${field}.${key}.$in`, message: 'must be an array' });
+    } else if ('$exists' in condition && typeof condition.$exists !== 'boolean') {
+      errors.push({ field: `${field}.${key}.$exists`, message: 'must be a boolean' });
+    }
+  }
+}
+
+function throwIfInvalid(errors: FieldError[], what: string): void {
+  if (errors.length === 0) {
+    return;
+  }
+
+  const summary = errors.map(error => `${error.field} ${error.message}`).join('; ');
+  throw new VectorcacheValidationError(`Invalid ${what}: ${summary}`, { errors });
+}
+
+/**
+ * Collect field errors for a semantic query request
+ */
+export function getQueryRequestErrors(request: SemanticQueryRequest): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (!request || typeof request !== 'object') {
+    return [{ field: 'request', message: 'must be an object' }];
+  }
+
+  const hasQuery = request.query !== undefined && request.query !== null;
+  const hasMessages = request.messages !== undefined && request.messages !== null;
+
+  if (hasQuery && hasMessages) {
+    errors.push({ field: 'query', message: 'cannot be combined with messages' });
+  } else if (!hasQuery && !hasMessages) {
+    errors.push({ field: 'query', message: 'or messages is required' });
+  }
+
+  if (hasQuery && (typeof request.query !== 'string' || request.query.trim() === '')) {
+    errors.push({ field: 'query', message: 'must be a non-empty string' });
+  }
+
+  if (hasMessages) {
+    if (!Array.isArray(request.messages) || request.messages.length === 0) {
+      errors.push({ field: 'messages', message: 'must be a non-empty array' });
+    } else {
+      request.messages.forEach((message, index) => {
+        if (!message || !MESSAGE_ROLES.includes(message.role)) {
+          errors.push({ field: `messages[${index}].role`, message: `must be one of ${MESSAGE_ROLES.join(', ')}` });
+        }
+        if (!message || typeof message.content !== 'string') {
+          errors.push({ field: `messages[${index}].content`, message: 'must be a string' });
+        }
+      });
+    }
+  }
+
+  checkOptionalString(errors, 'context', request.context);
+  checkOptionalString(errors, 'model', request.model);
+  checkRange(errors, 'max_tokens', request.max_tokens, 1, MAX_TOKENS_LIMIT, true);
+  checkRange(errors, 'temperature', request.temperature, 0, 2);
+
+  if (request.metadata !== undefined && (typeof request.metadata !== 'object' || request.metadata === null)) {
+    errors.push({ field: 'metadata', message: 'must be an object' });
+  }
+
+  return errors;
+}
+
+/**
+ * Throw a VectorcacheValidationError if the query request is invalid
+ */
+export function validateQueryRequest(request: SemanticQueryRequest): void {
+  throwIfInvalid(getQueryRequestErrors(request), 'query request');
+}
+
+/**
+ * Throw a VectorcacheValidationError if the store request is invalid
+ */
+export function validateStoreRequest(request: CacheStoreRequest): void {
+  const errors = getQueryRequestErrors(request);
+
+  if (typeof request?.response !== 'string') {
+    errors.push({ field: 'response', message: 'must be a string' });
+  }
+
+  checkRange(errors, 'tokens_used', request?.tokens_used, 0, Number.MAX_SAFE_INTEGER, true);
+  checkRange(errors, 'estimated_cost', request?.estimated_cost, 0, Number.MAX_VALUE);
+
+  throwIfInvalid(errors, 'store request');
+}
+
+/**
+ * Throw a VectorcacheValidationError if the cache test request is invalid
+ */
+export function validateCacheTestRequest(request: CacheTestRequest): void {
+  const errors: FieldError[] = [];
+
+  if (typeof request?.project_id !== 'string' || request.project_id === '') {
+    errors.push({ field: 'project_id', message: 'is required' });
+  }
+  if (typeof request?.prompt !== 'string' || request.prompt.trim() === '') {
+    errors.push({ field: 'prompt', message: 'must be a non-empty string' });
+  }
+
+  checkOptionalString(errors, 'context', request?.context);
+  checkOptionalString(errors, 'model', request?.model);
+  checkRange(errors, 'similarity_threshold', request?.similarity_threshold, 0, 1);
+
+  throwIfInvalid(errors, 'cache test request');
+}
+
+function getClearCacheRequestErrors(request: ClearCacheRequest): FieldError[] {
+  const errors: FieldError[] = [];
+
+  checkOptionalString(errors, 'project_id', request?.project_id);
+  checkRange(errors, 'older_than_hours', request?.older_than_hours, 0, Number.MAX_SAFE_INTEGER);
+
+  return errors;
+}
+
+/**
+ * Throw a VectorcacheValidationError if the clear cache request is invalid
+ */
+export function validateClearCacheRequest(request: ClearCacheRequest): void {
+  throwIfInvalid(getClearCacheRequestErrors(request), 'clear cache request');
+}
+
+/**
+ * Throw a VectorcacheValidationError if the invalidation request is invalid or has no filter
+ */
+export function validateInvalidateRequest(request: InvalidateRequest): void {
+  const errors = getClearCacheRequestErrors(request);
+
+  if (!request?.metadata && request?.model === undefined && !request?.similar_to &&
+      !request?.expired_only && request?.older_than_hours === undefined) {
+    errors.push({ field: 'request', message: 'must set metadata, model, similar_to, expired_only or older_than_hours' });
+  }
+
+  checkMetadataFilter(errors, 'metadata', request?.metadata);
+
+  if (request?.model !== undefined) {
+    const models: unknown[] = Array.isArray(request.model) ? request.model : [request.model];
+    if (models.length === 0 || models.some(model => typeof model !== 'string')) {
+      errors.push({ field: 'model', message: 'must be a string or a non-empty array of strings' });
+    }
+  }
+
+  if (request?.similar_to !== undefined) {
+    const similarTo = request.similar_to;
+    if (typeof similarTo?.query !== 'string' || similarTo.query.trim() === '') {
+      errors.push({ field: 'similar_to.query', message: 'must be a non-empty string' });
+    }
+    if (similarTo?.min_similarity === undefined) {
+      errors.push({ field: 'similar_to.min_similarity', message: 'is required' });
+    }
+    checkRange(errors, 'similar_to.min_similarity', similarTo?.min_similarity, 0, 1);
+    checkOptionalString(errors, 'similar_to.context', similarTo?.context);
+  }
+
+  throwIfInvalid(errors, 'invalidate request');
+}
+
+/**
+ * Throw a VectorcacheValidationError if the entry listing options are invalid
+ */
+export function validateListEntriesOptions(options: ListEntriesOptions): void {
+  const errors: FieldError[] = [];
+
+  checkRange(errors, 'limit', options.limit, 1, 1000, true);
+  checkOptionalString(errors, 'cursor', options.cursor);
+
+  if (options.sortOrder !== undefined && options.sortOrder !== 'asc' && options.sortOrder !== 'desc') {
+    errors.push({ field: 'sortOrder', message: 'must be asc or desc' });
+  }
+
+  throwIfInvalid(errors, 'list entries options');
+}
+
+/**
+ * Throw a VectorcacheValidationError if the entry update is invalid
+ */
+export function validateUpdateEntryRequest(update: UpdateCacheEntryRequest): void {
+  const errors: FieldError[] = [];
+
+  if (!update || Object.keys(update).length === 0) {
+    errors.push({ field: 'update', message: 'must set response_text, metadata or expires_at' });
+  } else {
+    checkOptionalString(errors, 'response_text', update.response_text);
+
+    if (update.metadata !== undefined && (typeof update.metadata !== 'object' || update.metadata === null)) {
+      errors.push({ field: 'metadata', message: 'must be an object' });
+    }
+    if (update.expires_at !== undefined && Number.isNaN(Date.parse(update.expires_at))) {
+      errors.push({ field: 'expires_at', message: 'must be an ISO 8601 timestamp' });
+    }
+  }
+
+  throwIfInvalid(errors, 'entry update');
+}
+
+/**
+ * Throw a VectorcacheValidationError if the similarity search options are invalid
+ */
+export function validateSearchSimilarOptions(options: SearchSimilarOptions): void {
+  const errors = getQueryRequestErrors({ query: options?.query, messages: options?.messages, context: options?.context });
+
+  checkRange(errors, 'minSimilarity', options?.minSimilarity, 0, 1);
+  checkRange(errors, 'limit', options?.limit, 1, 1000, true);
+  checkOptionalString(errors, 'cursor', options?.cursor);
+  checkMetadataFilter(errors, 'metadataFilter', options?.metadataFilter);
+
+  throwIfInvalid(errors, 'similarity search');
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function collectSchemaIssues(body: any, schema: ResponseSchema, path: string, issues: FieldError[]): void {
+  if (!matchesType(body, 'object')) {
+    issues.push({ field: path || 'response', message: 'must be an object' });
+    return;
+  }
+
+  const prefix = path ? `${path}.` : '';
+
+  for (const [field, type] of Object.entries(schema.required)) {
+    if (body[field] === undefined || body[field] === null) {
+      issues.push({ field: `${prefix}${field}`, message: 'is missing' });
+    } else if (!matchesType(body[field], type)) {
+      issues.push({ field: `${prefix}${field}`, message: `must be of type ${type}` });
+    }
+  }
+
+  for (const [field, type] of Object.entries(schema.optional || {})) {
+    if (body[field] !== undefined && body[field] !== null && !matchesType(body[field], type)) {
+      issues.push({ field: `${prefix}${field}`, message: `must be of type ${type}` });
+    }
+  }
+
+  for (const [field, itemSchema] of Object.entries(schema.items || {})) {
+    if (Array.isArray(body[field])) {
+      body[field].forEach((item: any, index: number) =>
+        collectSchemaIssues(item, itemSchema, `${prefix}${field}[${index}]`, issues)
+      );
+    }
+  }
+}
+
+/**
+ * Throw a VectorcacheSchemaError if a response body does not match its declared interface
+ */
+export function validateResponse(body: unknown, schema: ResponseSchema, endpoint: string): void {
+  const issues: FieldError[] = [];
+  collectSchemaIssues(body, schema, '', issues);
+
+  if (issues.length > 0) {
+    const summary = issues.map(issue => `${issue.field} ${issue.message}`).join('; ');
+    throw new VectorcacheSchemaError(`Unexpected response from ${endpoint}: ${summary}`, { endpoint, issues, body });
+  }
+}
+
+const SIMILAR_ENTRY_SCHEMA: ResponseSchema = {
+  required: { id: 'string', original_query: 'string', similarity: 'number' },
+  optional: { created_at: 'string', response_text: 'string', metadata: 'object' }
+};
+
+const CACHE_ENTRY_SCHEMA: ResponseSchema = {
+  required: {
+    id: 'string',
+    project_id: 'string',
+    query_text: 'string',
+    response_text: 'string',
+    hit_count: 'number',
+    created_at: 'string',
+    expires_at: 'string'
+  },
+  optional: {
+    query_context: 'string',
+    embedding: 'array',
+    similarity_threshold: 'number',
+    tokens_saved: 'number',
+    cost_saved: 'number',
+    metadata: 'object',
+    model: 'string',
+    last_hit_at: 'string'
+  }
+};
+
+/** Response schemas matching the interfaces in types.ts */
+export const RESPONSE_SCHEMAS: Record<string, ResponseSchema> = {
+  semanticQuery: {
+    required: { response: 'string', is_cache_hit: 'boolean', response_time_ms: 'number', query_id: 'string' },
+    optional: {
+      similarity_score: 'number',
+      tokens_used: 'number',
+      estimated_cost: 'number',
+      cache_entry_id: 'string'
+    }
+  },
+  cacheLookup: {
+    required: { is_cache_hit: 'boolean', response_time_ms: 'number', query_id: 'string' },
+    optional: { response: 'string', similarity_score: 'number', cache_entry_id: 'string' }
+  },
+  cacheStore: {
+    required: { cache_entry_id: 'string' }
+  },
+  cacheTest: {
+    required: { cache_hit: 'boolean', response_time: 'number', response: 'string', similar_entries: 'array' },
+    optional: {
+      similarity_score: 'number',
+      cost_saved: 'number',
+      cost_spent: 'number',
+      cache_entry_id: 'string',
+      workflow_steps: 'array'
+    },
+    items: {
+      similar_entries: SIMILAR_ENTRY_SCHEMA,
+      workflow_steps: {
+        required: { id: 'number', name: 'string', status: 'string' },
+        optional: { duration: 'number', details: 'string', icon: 'string' }
+      }
+    }
+  },
+  cacheStats: {
+    required: {
+      project_id: 'string',
+      total_entries: 'number',
+      active_entries: 'number',
+      expired_entries: 'number',
+      total_hits: 'number',
+      total_tokens_saved: 'number',
+      total_cost_saved: 'number',
+      avg_similarity_score: 'number',
+      cache_size_mb: 'number'
+    }
+  },
+  clearCache: {
+    required: { entries_cleared: 'number', space_freed_mb: 'number', operation_time_ms: 'number' }
+  },
+  similarQueries: {
+    required: { query: 'string', similar_entries: 'array', total_found: 'number' },
+    items: { similar_entries: SIMILAR_ENTRY_SCHEMA }
+  },
+  similarEntryPage: {
+    required: { entries: 'array', total_found: 'number' },
+    optional: { next_cursor: 'string' },
+    items: { entries: SIMILAR_ENTRY_SCHEMA }
+  },
+  health: {
+    required: { status: 'string', timestamp: 'string' }
+  },
+  cacheEntry: CACHE_ENTRY_SCHEMA,
+  cacheEntryPage: {
+    required: { entries: 'array' },
+    optional: { next_cursor: 'string' },
+    items: { entries: CACHE_ENTRY_SCHEMA }
+  },
+  deleteEntry: {
+    required: { id: 'string', deleted: 'boolean' }
+  },
+  cacheImport: {
+    required: { imported: 'number', skipped: 'number' }
+  },
+  invalidate: {
+    required: {
+      entries_cleared: 'number',
+      space_freed_mb: 'number',
+      operation_time_ms: 'number',
+      entries_matched: 'number',
+      deleted_ids: 'array',
+      dry_run: 'boolean'
+    },
+    optional: { entries: 'array' },
+    items: { entries: CACHE_ENTRY_SCHEMA }
+  }
+};
@@ -0,0 +1,146 @@
+/**
+ * Cache warming helpers for Vectorcache SDK
+ */
+
+import { SemanticQueryRequest } from './types';
+import { VectorcacheValidationError } from './errors';
+import { readLines } from './snapshot';
+
+/**
+ * Prompts to warm the cache with: requests in memory, or a path to a
+ * `.jsonl`/`.ndjson` or `.csv` file of requests
+ */
+export type WarmCacheSource =
+  | string
+  | Iterable<SemanticQueryRequest>
+  | AsyncIterable<SemanticQueryRequest>;
+
+/** CSV columns that hold numbers */
+const NUMERIC_COLUMNS = ['max_tokens', 'temperature'];
+
+/**
+ * Split one CSV record into fields, honouring double-quoted fields
+ */
+export function parseCsvRecord(record: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+
+    if (quoted) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+async function* readCsvRequests(path: string): AsyncGenerator<SemanticQueryRequest> {
+  let header: string[] | undefined;
+  let record = '';
+  let lineNumber = 0;
+
+  for await (const line of readLines(path)) {
+    lineNumber++;
+    record = record ? `${record}\n${line}` : line;
+
+    // A record continues onto the next line while a quoted field is open
+    if ((record.match(/"/g) || []).length % 2 === 1) {
+      continue;
+    }
+
+    const fields = parseCsvRecord(record);
+    record = '';
+
+    if (!header) {
+      header = fields.map(name => name.trim());
+      if (!header.includes('query')) {
+        throw new VectorcacheValidationError('CSV prompt files need a "query" column', { line: lineNumber });
+      }
+      continue;
+    }
+    if (fields.length === 1 && fields[0].trim() === '') {
+      continue;
+    }
+
+    const request: Record<string, any> = {};
+    header.forEach((name, index) => {
+      const value = fields[index];
+      if (value === undefined || value === '') {
+        return;
+      }
+      if (NUMERIC_COLUMNS.includes(name)) {
+        request[name] = Number(value);
+      } else if (name === 'metadata') {
+        try {
+          request[name] = JSON.parse(value);
+        } catch {
+          throw new VectorcacheValidationError(`Invalid metadata JSON on prompt file line ${lineNumber}`, {
+            line: lineNumber
+          });
+        }
+      } else if (name === 'query' || name === 'context' || name === 'model') {
+        request[name] = value;
+      }
+    });
+
+    yield request as SemanticQueryRequest;
+  }
+}
+
+async function* readJsonlRequests(path: string): AsyncGenerator<SemanticQueryRequest> {
+  let lineNumber = 0;
+
+  for await (const line of readLines(path)) {
+    lineNumber++;
+    if (line.trim() === '') {
+      continue;
+    }
+
+    let request: SemanticQueryRequest;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      throw new VectorcacheValidationError(`Invalid JSON on prompt file line ${lineNumber}`, { line: lineNumber });
+    }
+
+    yield request;
+  }
+}
+
+/**
+ * Resolve a warm-cache source into requests, reading files lazily
+ */
+export function readWarmPrompts(
+  source: WarmCacheSource
+): Iterable<SemanticQueryRequest> | AsyncIterable<SemanticQueryRequest> {
+  if (typeof source !== 'string') {
+    return source;
+  }
+
+  if (/\.csv$/i.test(source)) {
+    return readCsvRequests(source);
+  }
+  if (/\.(jsonl|ndjson)$/i.test(source)) {
+    return readJsonlRequests(source);
+  }
+
+  throw new VectorcacheValidationError(`Unsupported prompt file "${source}": use .csv, .jsonl or .ndjson`);
+}
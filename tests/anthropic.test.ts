@@ -0,0 +1,121 @@
+/**
+ * Tests for the Anthropic wrapper
+ */
+
+import { VectorcacheClient } from '../src/client';
+import { wrapAnthropic } from '../src/anthropic';
+
+describe('wrapAnthropic', () => {
+  let vectorcache: VectorcacheClient;
+  let create: jest.Mock;
+
+  const params = {
+    model: 'claude-sonnet-4-5',
+    max_tokens: 256,
+    system: 'Be brief.',
+    messages: [{ role: 'user' as const, content: 'Capital of France?' }]
+  };
+
+  const message = {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-5',
+    content: [{ type: 'text', text: 'Paris' }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 12, output_tokens: 2 }
+  };
+
+  beforeEach(() => {
+    vectorcache = new VectorcacheClient({ apiKey: 'test-api-key' });
+    create = jest.fn().mockResolvedValue(message);
+  });
+
+  it('should map the system prompt and return cached answers as messages', async () => {
+    const lookup = jest.spyOn(vectorcache, 'lookup').mockResolvedValue({
+      is_cache_hit: true,
+      response: 'Paris',
+      similarity_score: 0.96,
+      response_time_ms: 20,
+      query_id: 'q-1'
+    });
+
+    const result = await wrapAnthropic({ messages: { create } }, vectorcache).messages.create(params);
+
+    expect(create).not.toHaveBeenCalled();
+    expect(lookup).toHaveBeenCalledWith({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Capital of France?' }
+      ],
+      model: 'claude-sonnet-4-5',
+      max_tokens: 256
+    }, { projectId: undefined });
+    expect(result).toEqual(expect.objectContaining({
+      type: 'message',
+      content: [{ type: 'text', text: 'Paris' }],
+      stop_reason: 'end_turn',
+      vectorcache: expect.objectContaining({ is_cache_hit: true })
+    }));
+  });
+
+  it('should call Anthropic on a miss and store complete answers', async () => {
+    jest.spyOn(vectorcache, 'lookup').mockResolvedValue({ is_cache_hit: false, response_time_ms: 20, query_id: 'q-1' });
+    const store = jest.spyOn(vectorcache, 'store').mockResolvedValue({ cache_entry_id: 'e-1' });
+
+    const result = await wrapAnthropic({ messages: { create } }, vectorcache).messages.create(params);
+
+    expect(result.vectorcache).toEqual({ is_cache_hit: false });
+    expect(store).toHaveBeenCalledWith(
+      expect.objectContaining({ response: 'Paris', tokens_used: 14 }),
+      { projectId: undefined }
+    );
+  });
+
+  it('should store streamed answers once the stream completes', async () => {
+    jest.spyOn(vectorcache, 'lookup').mockResolvedValue({ is_cache_hit: false, response_time_ms: 20, query_id: 'q-1' });
+    const store = jest.spyOn(vectorcache, 'store').mockResolvedValue({ cache_entry_id: 'e-1' });
+    create.mockResolvedValue((async function* () {
+      yield { type: 'message_start', message: { usage: { input_tokens: 12 } } };
+      yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Par' } };
+      yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'is' } };
+      yield { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } };
+      yield { type: 'message_stop' };
+    })());
+
+    const stream = await wrapAnthropic({ messages: { create } }, vectorcache).messages.create({ ...params, stream: true });
+    const types: string[] = [];
+    for await (const event of stream) {
+      types.push(event.type);
+    }
+
+    expect(types).toEqual(['message_start', 'content_block_delta', 'content_block_delta', 'message_delta', 'message_stop']);
+    expect(store).toHaveBeenCalledWith(expect.objectContaining({ response: 'Paris', tokens_used: 14 }), { projectId: undefined });
+  });
+
+  it('should send calls with params outside the cache key straight to Anthropic', async () => {
+    const lookup = jest.spyOn(vectorcache, 'lookup');
+    const wrapped = wrapAnthropic({ messages: { create } }, vectorcache);
+
+    await wrapped.messages.create({ ...params, stop_sequences: ['\n'] });
+    await wrapped.messages.create({ ...params, top_k: 5 });
+    await wrapped.messages.create({ ...params, tool_choice: { type: 'auto' } });
+    await wrapped.messages.create({ ...params, system: [{ type: 'text', text: 'Be brief.', citations: [] }] });
+    await wrapped.messages.create({ ...params, max_tokens: 16000 });
+    await wrapped.messages.create({ ...params, mcp_servers: [{ type: 'url', url: 'https://mcp.example.com', name: 'docs' }] });
+
+    expect(lookup).not.toHaveBeenCalled();
+    expect(create).toHaveBeenCalledTimes(6);
+
+    jest.spyOn(vectorcache, 'store').mockResolvedValue({ cache_entry_id: 'e-1' });
+    lookup.mockResolvedValue({ is_cache_hit: false, response_time_ms: 20, query_id: 'q-1' });
+    await wrapped.messages.create({
+      ...params,
+      system: [{ type: 'text', text: 'Be brief.', cache_control: { type: 'ephemeral' } }]
+    });
+    expect(lookup).toHaveBeenCalledWith(expect.objectContaining({
+      messages: expect.arrayContaining([{ role: 'system', content: 'Be brief.' }])
+    }), { projectId: undefined });
+  });
+});
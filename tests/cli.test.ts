@@ -0,0 +1,160 @@
+/**
+ * Tests for the vectorcache command-line tool
+ */
+
+import { CliIO, formatTable, parseArgs, runCli } from '../src/cli';
+import { okResponse } from './helpers';
+
+global.fetch = jest.fn();
+
+describe('vectorcache CLI', () => {
+  let stdout: string[];
+  let stderr: string[];
+  let io: CliIO;
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    io = {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      prompt: jest.fn().mockResolvedValue(undefined),
+      env: { VECTORCACHE_API_KEY: 'env-key', VECTORCACHE_BASE_URL: 'https://api.test.com' },
+      readFile: jest.fn().mockResolvedValue(undefined)
+    };
+    (fetch as jest.MockedFunction<typeof fetch>).mockReset();
+  });
+
+  it('should parse flags and positionals', () => {
+    expect(parseArgs(['test', 'What', 'is', 'AI?', '--threshold', '0.8', '--debug', '--model=gpt-4'])).toEqual({
+      positionals: ['test', 'What', 'is', 'AI?'],
+      flags: { threshold: '0.8', debug: true, model: 'gpt-4' }
+    });
+  });
+
+  it('should print stats as a table or as JSON', async () => {
+    const stats = {
+      project_id: 'proj',
+      total_entries: 10,
+      active_entries: 8,
+      expired_entries: 2,
+      total_hits: 42,
+      total_tokens_saved: 1000,
+      total_cost_saved: 1.5,
+      avg_similarity_score: 0.91,
+      cache_size_mb: 0.5
+    };
+    (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(okResponse(stats));
+
+    expect(await runCli(['stats', 'proj'], io)).toBe(0);
+    expect(stdout[0]).toContain('Total hits       42');
+    expect(fetch).toHaveBeenCalledWith('https://api.test.com/v1/cache/projects/proj/stats', expect.objectContaining({
+      headers: expect.objectContaining({ 'X-API-Key': 'env-key' })
+    }));
+
+    expect(await runCli(['stats', 'proj', '--json'], io)).toBe(0);
+    expect(JSON.parse(stdout[1])).toEqual(stats);
+  });
+
+  it('should render workflow steps as a table with --debug', async () => {
+    (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(okResponse({
+      cache_hit: true,
+      similarity_score: 0.93,
+      response_time: 45,
+      response: 'AI is...',
+      similar_entries: [],
+      workflow_steps: [
+        { id: 1, name: 'Embed prompt', status: 'success', duration: 12, icon: '' },
+        { id: 2, name: 'Vector search', status: 'success', duration: 20, details: '3 candidates', icon: '' }
+      ]
+    }));
+
+    const code = await runCli(['test', 'What is AI?', '--project', 'proj', '--threshold', '0.8', '--debug'], io);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(String((fetch as jest.Mock).mock.calls[0][1].body))).toEqual({
+      project_id: 'proj',
+      prompt: 'What is AI?',
+      similarity_threshold: 0.8,
+      include_debug: true
+    });
+    expect(stdout[0]).toContain('Similarity:    0.930');
+    expect(stdout[0]).toContain('2  Vector search  success  20ms      3 candidates');
+  });
+
+  it('should require confirmation before clearing', async () => {
+    (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(okResponse({
+      entries_cleared: 3, space_freed_mb: 0.1, operation_time_ms: 5
+    }));
+
+    // No terminal attached and no --yes
+    expect(await runCli(['clear', '--project', 'proj'], io)).toBe(2);
+    expect(fetch).not.toHaveBeenCalled();
+
+    (io.prompt as jest.Mock).mockResolvedValueOnce('n');
+    expect(await runCli(['clear', '--project', 'proj'], io)).toBe(0);
+    expect(fetch).not.toHaveBeenCalled();
+
+    (io.prompt as jest.Mock).mockResolvedValueOnce('y');
+    expect(await runCli(['clear', '--project', 'proj', '--expired-only', '--older-than', '24'], io)).toBe(0);
+    expect(io.prompt).toHaveBeenLastCalledWith('Clear expired, older than 24h cache entries in project proj? [y/N] ');
+    expect(JSON.parse(String((fetch as jest.Mock).mock.calls[0][1].body))).toEqual({
+      project_id: 'proj',
+      expired_only: true,
+      older_than_hours: 24
+    });
+
+    expect(await runCli(['clear', '--project', 'proj', '--yes'], io)).toBe(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only clear every project with --all', async () => {
+    (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(okResponse({
+      entries_cleared: 3, space_freed_mb: 0.1, operation_time_ms: 5
+    }));
+
+    expect(await runCli(['clear', '--yes'], io)).toBe(2);
+    expect(stderr[0]).toContain('--all');
+    expect(fetch).not.toHaveBeenCalled();
+
+    expect(await runCli(['clear', '--yes', '--all'], io)).toBe(0);
+    expect(JSON.parse(String((fetch as jest.Mock).mock.calls[0][1].body))).toEqual({});
+
+    io.env = { ...io.env, VECTORCACHE_PROJECT_ID: 'env-project' };
+    expect(await runCli(['clear', '--yes', '--all'], io)).toBe(2);
+    expect(await runCli(['clear', '--yes', '--all', '--project', 'proj'], io)).toBe(2);
+    expect(stderr[1]).toContain('--all cannot be combined with project env-project');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read the API key from the config file', async () => {
+    io.env = { HOME: '/home/ops' };
+    (io.readFile as jest.Mock).mockResolvedValue(JSON.stringify({ apiKey: 'file-key', projectId: 'file-project' }));
+    (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(okResponse({ status: 'ok', timestamp: 'now' }));
+
+    expect(await runCli(['health'], io)).toBe(0);
+
+    expect(io.readFile).toHaveBeenCalledWith('/home/ops/.vectorcache.json');
+    expect(fetch).toHaveBeenCalledWith('https://api.vectorcache.com/health', expect.objectContaining({
+      headers: expect.objectContaining({ 'X-API-Key': 'file-key' })
+    }));
+  });
+
+  it('should report missing API keys, unknown commands and API errors', async () => {
+    io.env = {};
+    expect(await runCli(['health'], io)).toBe(2);
+    expect(stderr[0]).toContain('No API key');
+
+    io.env = { VECTORCACHE_API_KEY: 'key' };
+    expect(await runCli(['purge'], io)).toBe(2);
+    expect(stderr[1]).toContain('Unknown command: purge');
+
+    (fetch as jest.MockedFunction<typeof fetch>).mockRejectedValue(new Error('offline'));
+    expect(await runCli(['health'], io)).toBe(1);
+    expect(stderr[2]).toBe('VectorcacheNetworkError: Network error: offline');
+  });
+
+  it('should pad table columns', () => {
+    expect(formatTable(['A', 'Long'], [['xyz', '1']])).toBe('A    Long\n---  ----\nxyz  1');
+  });
+});
@@ -2,8 +2,31 @@
  * Tests for VectorcacheClient
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Writable } from 'stream';
 import { VectorcacheClient } from '../src/client';
-import { VectorcacheAPIError, VectorcacheAuthenticationError } from '../src/errors';
+import { formatPrometheus } from '../src/metrics';
+import { FakeVectorcacheServer } from '../src/testing';
+import { createStreamRestorer } from '../src/pii';
+import { EncryptionOptions, PiiRedactionOptions, SemanticQueryResponse, VectorcacheConfig } from '../src/types';
+import {
+  VectorcacheAbortError,
+  VectorcacheAPIError,
+  VectorcacheAuthenticationError,
+  VectorcacheCircuitOpenError,
+  VectorcacheDecryptionError,
+  VectorcacheNetworkError,
+  VectorcacheNotFoundError,
+  VectorcacheRateLimitError,
+  VectorcacheReplayError,
+  VectorcacheSchemaError,
+  VectorcacheServerError,
+  VectorcacheTimeoutError,
+  VectorcacheValidationError
+} from '../src/errors';
+import { errorResponse, jsonResponse, okResponse } from './helpers';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -68,7 +91,7 @@ describe('VectorcacheClient', () => {
         expect.objectContaining({
           method: 'POST',
           headers: expect.objectContaining({
-            'Authorization': 'Bearer test-api-key',
+            'X-API-Key': 'test-api-key',
             'Content-Type': 'application/json'
           }),
           body: JSON.stringify({
@@ -164,6 +187,1638 @@ describe('VectorcacheClient', () => {
     });
   });
 
+  describe('retries', () => {
+    const healthyResponse = okResponse({ status: 'healthy', timestamp: 'now' });
+
+    it('should not retry when no policy is configured', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(errorResponse(503));
+
+      await expect(client.health()).rejects.toThrow(VectorcacheServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry gateway errors until success', async () => {
+      const retryingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        baseUrl: 'https://api.test.com',
+        retry: { initialDelayMs: 1, jitter: false }
+      });
+
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(errorResponse(502))
+        .mockResolvedValueOnce(healthyResponse);
+
+      const result = await retryingClient.health();
+
+      expect(result.status).toBe('healthy');
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry internal server errors', async () => {
+      const retryingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        retry: { initialDelayMs: 1 }
+      });
+
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(errorResponse(500));
+
+      await expect(retryingClient.health()).rejects.toThrow(VectorcacheServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honor Retry-After on rate limit errors', async () => {
+      const onRetry = jest.fn();
+      const retryingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        retry: { initialDelayMs: 1, onRetry }
+      });
+
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '0' }))
+        .mockResolvedValueOnce(healthyResponse);
+
+      await retryingClient.health();
+
+      expect(onRetry).toHaveBeenCalledWith(expect.any(VectorcacheRateLimitError), 1, 0);
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', async () => {
+      const retryingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        retry: { initialDelayMs: 1, maxDelayMs: 1000 }
+      });
+
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '60' }));
+
+      await expect(retryingClient.health()).rejects.toThrow(VectorcacheRateLimitError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only retry clearCache when opted in', async () => {
+      const retryingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        retry: { initialDelayMs: 1 }
+      });
+
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(errorResponse(503));
+      await expect(retryingClient.clearCache({ project_id: 'p' })).rejects.toThrow(VectorcacheServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(healthyResponse);
+      await retryingClient.clearCache({ project_id: 'p' }, { retry: { initialDelayMs: 1, retryNonIdempotent: true } });
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('L1 cache', () => {
+    const queryResponse = () => okResponse({
+      response: 'Paris',
+      is_cache_hit: false,
+      response_time_ms: 1200,
+      query_id: 'q-1'
+    });
+
+    it('should serve repeated queries from memory', async () => {
+      const cachingClient = new VectorcacheClient({ apiKey: 'test-api-key', l1Cache: true });
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(queryResponse());
+
+      const first = await cachingClient.query({ query: 'Capital of France?', model: 'gpt-4' });
+      const second = await cachingClient.query({ query: '  Capital of   France? ', model: 'gpt-4' });
+
+      expect(first.is_local_hit).toBeUndefined();
+      expect(second).toEqual(expect.objectContaining({
+        response: 'Paris',
+        is_cache_hit: true,
+        is_local_hit: true
+      }));
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should key on model and temperature', async () => {
+      const cachingClient = new VectorcacheClient({ apiKey: 'test-api-key', l1Cache: true });
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(queryResponse())
+        .mockResolvedValueOnce(queryResponse());
+
+      await cachingClient.query({ query: 'Capital of France?', temperature: 0 });
+      await cachingClient.query({ query: 'Capital of France?', temperature: 1 });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict the least recently used entry', async () => {
+      const cachingClient = new VectorcacheClient({ apiKey: 'test-api-key', l1Cache: { maxEntries: 1 } });
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(queryResponse())
+        .mockResolvedValueOnce(queryResponse())
+        .mockResolvedValueOnce(queryResponse());
+
+      await cachingClient.query({ query: 'a' });
+      await cachingClient.query({ query: 'b' });
+      await cachingClient.query({ query: 'a' });
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('queryStream', () => {
+    const streamResponse = (chunks: string[]) => {
+      const encoder = new TextEncoder();
+      return {
+        ok: true,
+        status: 200,
+        headers: { get: () => 'text/event-stream' },
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            controller.close();
+          }
+        })
+      } as unknown as Response;
+    };
+
+    const collect = async (iterable: AsyncIterable<any>) => {
+      const events = [];
+      for await (const event of iterable) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    it('should yield deltas followed by the final response', async () => {
+      const final = { response: 'Hello world', is_cache_hit: false, response_time_ms: 900, query_id: 'q-1' };
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(streamResponse([
+        'event: delta\ndata: {"delta":"Hello"}\n\n',
+        'event: delta\ndata: {"delta":" wor',
+        'ld"}\n\nevent: done\n',
+        `data: ${JSON.stringify(final)}\n\n`
+      ]));
+
+      const events = await collect(client.queryStream({ query: 'Say hello' }));
+
+      expect(events).toEqual([
+        { type: 'delta', delta: 'Hello' },
+        { type: 'delta', delta: ' world' },
+        { type: 'done', response: final }
+      ]);
+      expect(fetch).toHaveBeenCalledWith(
+        'https://api.test.com/v1/cache/query',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'Accept': 'text/event-stream' }),
+          body: JSON.stringify({ query: 'Say hello', stream: true })
+        })
+      );
+    });
+
+    it('should ignore keepalive and other unknown events', async () => {
+      const final = { response: 'Hi', is_cache_hit: false, response_time_ms: 900, query_id: 'q-1' };
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(streamResponse([
+        'event: ping\ndata: keepalive\n\n',
+        'event: delta\ndata: {"delta":"Hi"}\n\n',
+        ': comment\ndata: not json\n\n',
+        `event: done\ndata: ${JSON.stringify(final)}\n\n`
+      ]));
+
+      const events = await collect(client.queryStream({ query: 'Say hi' }));
+
+      expect(events).toEqual([{ type: 'delta', delta: 'Hi' }, { type: 'done', response: final }]);
+    });
+
+    it('should stream JSON responses as a single chunk', async () => {
+      const hit = { response: 'Cached', is_cache_hit: true, response_time_ms: 40, query_id: 'q-2' };
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: { get: () => 'application/json' },
+        body: null,
+        text: () => Promise.resolve(JSON.stringify(hit))
+      } as unknown as Response);
+
+      const events = await collect(client.queryStream({ query: 'Cached?' }));
+
+      expect(events).toEqual([
+        { type: 'delta', delta: 'Cached' },
+        { type: 'done', response: hit }
+      ]);
+    });
+
+    it('should fail if the stream ends without a final event', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(streamResponse([
+        'event: delta\ndata: {"delta":"Hel"}\n\n'
+      ]));
+
+      await expect(collect(client.queryStream({ query: 'Say hello' })))
+        .rejects
+        .toThrow('Stream ended before the final event');
+    });
+  });
+
+  describe('queryBatch', () => {
+    const queryResult = (query: string, hit: boolean) => ({
+      response: `Answer to ${query}`,
+      is_cache_hit: hit,
+      response_time_ms: 10,
+      tokens_used: hit ? 0 : 100,
+      estimated_cost: hit ? 0 : 0.01,
+      query_id: query
+    });
+
+    it('should fall back to individual queries and report partial failures', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockImplementation(async (url, init) => {
+        if (String(url).endsWith('/v1/cache/query/batch')) {
+          return jsonResponse(404, { message: 'Not found' });
+        }
+        const { query } = JSON.parse(String(init?.body));
+        return query === 'bad'
+          ? jsonResponse(429, { message: 'Slow down' })
+          : jsonResponse(200, queryResult(query, query === 'a'));
+      });
+
+      const batch = await client.queryBatch([{ query: 'a' }, { query: 'bad' }, { query: 'c' }], { concurrency: 2 });
+
+      expect(batch.results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+      expect(batch.results[1].status === 'rejected' && batch.results[1].error).toBeInstanceOf(VectorcacheRateLimitError);
+      expect(batch.totals).toEqual({
+        hits: 1,
+        misses: 1,
+        errors: 1,
+        skipped: 0,
+        tokens_used: 100,
+        estimated_cost: 0.01
+      });
+
+      // The missing bulk endpoint is remembered
+      (fetch as jest.MockedFunction<typeof fetch>).mockClear();
+      await client.queryBatch([{ query: 'a' }]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop starting new queries after a failure when requested', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockImplementation(async (url, init) => {
+        const { query } = JSON.parse(String(init?.body));
+        return query === 'bad'
+          ? jsonResponse(503, { message: 'Unavailable' })
+          : jsonResponse(200, queryResult(query, true));
+      });
+
+      const batch = await client.queryBatch(
+        [{ query: 'a' }, { query: 'bad' }, { query: 'c' }],
+        { concurrency: 1, stopOnError: true, bulk: false }
+      );
+
+      expect(batch.results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'skipped']);
+      expect(batch.totals.skipped).toBe(1);
+    });
+
+    it('should use the bulk endpoint when available', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(jsonResponse(200, {
+        results: [queryResult('a', true), { error: { status: 400, message: 'Invalid query' } }]
+      }));
+
+      const batch = await client.queryBatch([{ query: 'a' }, { query: 'b' }]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledWith('https://api.test.com/v1/cache/query/batch', expect.objectContaining({
+        body: JSON.stringify({ requests: [{ query: 'a' }, { query: 'b' }] })
+      }));
+      expect(batch.totals.hits).toBe(1);
+      expect(batch.totals.errors).toBe(1);
+    });
+
+    it('should reject bulk items the endpoint returned no result for', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(jsonResponse(200, {
+        results: [queryResult('a', true)]
+      }));
+
+      const batch = await client.queryBatch([{ query: 'a' }, { query: 'b' }]);
+
+      expect(batch.results[0].status).toBe('fulfilled');
+      expect(batch.results[1].status === 'rejected' && batch.results[1].error).toBeInstanceOf(VectorcacheSchemaError);
+      expect(batch.totals.errors).toBe(1);
+    });
+
+    it('should answer unavailable bulk items from the fallback LLM', async () => {
+      const fallback = jest.fn().mockResolvedValue({ response: 'Direct answer', tokens_used: 12 });
+      const fallbackClient = new VectorcacheClient({ apiKey: 'test-api-key', baseUrl: 'https://api.test.com', fallback });
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(jsonResponse(200, {
+          results: [queryResult('a', true), { error: { status: 503, message: 'Unavailable' } }]
+        }));
+
+      const batch = await fallbackClient.queryBatch([{ query: 'a' }, { query: 'b' }]);
+
+      expect(batch.results.map(result => result.status === 'fulfilled' && result.response.degraded))
+        .toEqual([undefined, true]);
+      expect(fallback).toHaveBeenCalledWith({ query: 'b' });
+
+      (fetch as jest.MockedFunction<typeof fetch>).mockRejectedValueOnce(new TypeError('fetch failed'));
+      const failed = await fallbackClient.queryBatch([{ query: 'c' }], { retry: false });
+      expect(failed.results[0].status === 'fulfilled' && failed.results[0].response.response).toBe('Direct answer');
+    });
+
+    it('should keep at most `concurrency` bulk chunks in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      (fetch as jest.MockedFunction<typeof fetch>).mockImplementation(async (_url, init) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        const { requests } = JSON.parse(String(init?.body));
+        return jsonResponse(200, { results: requests.map((request: any) => queryResult(request.query, true)) });
+      });
+
+      const requests = Array.from({ length: 450 }, (_, i) => ({ query: `q${i}` }));
+      const batch = await client.queryBatch(requests, { concurrency: 2 });
+
+      expect(fetch).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+      expect(batch.totals.hits).toBe(450);
+    });
+  });
+
+  describe('request coalescing', () => {
+    let coalescingClient: VectorcacheClient;
+    let resolveFetch: (response: Response) => void;
+
+    beforeEach(() => {
+      coalescingClient = new VectorcacheClient({ apiKey: 'test-api-key', coalesceRequests: true });
+      (fetch as jest.MockedFunction<typeof fetch>).mockImplementation(
+        () => new Promise(resolve => { resolveFetch = resolve; })
+      );
+    });
+
+    it('should share one request between identical concurrent queries', async () => {
+      const first = coalescingClient.query({ query: 'Popular prompt' });
+      const second = coalescingClient.query({ query: 'Popular  prompt ' });
+      await Promise.resolve();
+
+      resolveFetch(okResponse({
+        response: 'Answer',
+        is_cache_hit: false,
+        response_time_ms: 900,
+        query_id: 'q-1'
+      }));
+
+      const [leader, waiter] = await Promise.all([first, second]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(leader.is_coalesced).toBeUndefined();
+      expect(waiter).toEqual(expect.objectContaining({ response: 'Answer', is_coalesced: true }));
+    });
+
+    it('should let a waiter abort without cancelling the shared request', async () => {
+      const controller = new AbortController();
+      const first = coalescingClient.query({ query: 'Popular prompt' });
+      const second = coalescingClient.query({ query: 'Popular prompt' }, { signal: controller.signal });
+      await Promise.resolve();
+
+      controller.abort();
+      await expect(second).rejects.toThrow(VectorcacheAbortError);
+
+      resolveFetch(okResponse({ response: 'Answer', is_cache_hit: false, response_time_ms: 1, query_id: 'q' }));
+
+      await expect(first).resolves.toEqual(expect.objectContaining({ response: 'Answer' }));
+    });
+
+    it('should reject every waiter when the shared request fails', async () => {
+      const first = coalescingClient.query({ query: 'Popular prompt' });
+      const second = coalescingClient.query({ query: 'Popular prompt' });
+      await Promise.resolve();
+
+      resolveFetch(errorResponse(401));
+
+      await expect(first).rejects.toThrow(VectorcacheAuthenticationError);
+      await expect(second).rejects.toThrow(VectorcacheAuthenticationError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancellation', () => {
+    // Never resolves on its own; rejects like fetch when its signal aborts
+    const hangingFetch = (_url: any, init?: RequestInit) => new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener('abort', () => {
+        const error = new Error('The operation was aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    });
+
+    it('should cancel an in-flight query with the caller signal', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockImplementationOnce(hangingFetch);
+      const controller = new AbortController();
+
+      const pending = client.query({ query: 'Test' }, { signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(VectorcacheAbortError);
+    });
+
+    it('should not send requests for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.health({ signal: controller.signal })).rejects.toThrow(VectorcacheAbortError);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should keep reporting timeouts as timeout errors', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockImplementationOnce(hangingFetch);
+      const controller = new AbortController();
+
+      await expect(client.query({ query: 'Test' }, { timeout: 10, signal: controller.signal }))
+        .rejects
+        .toThrow(VectorcacheTimeoutError);
+    });
+
+    it('should stop waiting between retries when aborted', async () => {
+      const retryingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        retry: { initialDelayMs: 60000, jitter: false }
+      });
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(errorResponse(503));
+      const controller = new AbortController();
+
+      const pending = retryingClient.health({ signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toThrow(VectorcacheAbortError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('logger and interceptors', () => {
+    it('should send log output to a custom logger', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const loggingClient = new VectorcacheClient({ apiKey: 'test-api-key', logger, logBodies: false });
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(okResponse({ status: 'ok' }));
+
+      await loggingClient.query({ query: 'secret prompt' });
+
+      expect(logger.debug).toHaveBeenCalledWith(expect.stringContaining('Making POST request'), undefined);
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('secret prompt');
+    });
+
+    it('should let interceptors mutate requests and observe responses', async () => {
+      const onResponse = jest.fn();
+      const interceptingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        interceptors: [{
+          onRequest: request => {
+            request.headers['traceparent'] = '00-trace-span-01';
+            request.body = { ...request.body, metadata: { team: 'search' } };
+          },
+          onResponse
+        }]
+      });
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(okResponse({ response: 'ok' }));
+
+      await interceptingClient.query({ query: 'Test' });
+
+      expect(fetch).toHaveBeenCalledWith('https://api.vectorcache.com/v1/cache/query', expect.objectContaining({
+        headers: expect.objectContaining({ traceparent: '00-trace-span-01' }),
+        body: JSON.stringify({ query: 'Test', metadata: { team: 'search' } })
+      }));
+      expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({
+        status: 200,
+        body: { response: 'ok' },
+        durationMs: expect.any(Number)
+      }));
+    });
+
+    it('should let error interceptors transform or swallow errors', async () => {
+      class WrappedError extends Error {}
+      const transformingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        interceptors: [{ onError: error => { throw new WrappedError(error.message); } }]
+      });
+      const swallowingClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        interceptors: [{ onError: () => ({ status: 'degraded', timestamp: 'now' }) }]
+      });
+      (fetch as jest.MockedFunction<typeof fetch>).mockRejectedValue(new Error('offline'));
+
+      await expect(transformingClient.health()).rejects.toThrow(WrappedError);
+      await expect(swallowingClient.health()).resolves.toEqual({ status: 'degraded', timestamp: 'now' });
+    });
+  });
+
+  describe('cache entries', () => {
+    const entry = (id: string) => ({
+      id,
+      project_id: 'project-1',
+      query_text: `Query ${id}`,
+      response_text: `Answer ${id}`,
+      hit_count: 0,
+      created_at: '2024-01-01T00:00:00Z',
+      expires_at: '2024-01-08T00:00:00Z'
+    });
+
+    it('should list entries with paging and filter parameters', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(jsonResponse(200, { entries: [entry('a'), entry('b')], next_cursor: 'page-2' }))
+        .mockResolvedValueOnce(jsonResponse(200, { entries: [entry('c')] }));
+
+      const ids = [];
+      for await (const item of client.iterateEntries('project-1', {
+        limit: 2,
+        sortBy: 'hit_count',
+        filter: { metadata: { team: 'search' } }
+      })) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual(['a', 'b', 'c']);
+      expect(fetch).toHaveBeenNthCalledWith(
+        1,
+        'https://api.test.com/v1/cache/projects/project-1/entries?limit=2&sort_by=hit_count&metadata=%7B%22team%22%3A%22search%22%7D',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(fetch).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('/entries?cursor=page-2&limit=2'),
+        expect.anything()
+      );
+    });
+
+    it('should update and delete single entries', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(jsonResponse(200, { ...entry('a'), response_text: 'Fixed' }))
+        .mockResolvedValueOnce(jsonResponse(200, { id: 'a', deleted: true }));
+
+      const updated = await client.updateEntry('a', { response_text: 'Fixed' });
+      const deleted = await client.deleteEntry('a');
+
+      expect(updated.response_text).toBe('Fixed');
+      expect(deleted).toEqual({ id: 'a', deleted: true });
+      expect(fetch).toHaveBeenNthCalledWith(1, 'https://api.test.com/v1/cache/entries/a', expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ response_text: 'Fixed' })
+      }));
+      expect(fetch).toHaveBeenNthCalledWith(2, 'https://api.test.com/v1/cache/entries/a', expect.objectContaining({
+        method: 'DELETE'
+      }));
+    });
+
+    it('should export entries as JSONL to a stream', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(jsonResponse(200, { entries: [{ ...entry('a'), embedding: [0.1] }], next_cursor: '2' }))
+        .mockResolvedValueOnce(jsonResponse(200, { entries: [{ ...entry('b'), embedding: [0.2] }] }));
+      const written: string[] = [];
+      const stream = new Writable({
+        write(chunk, _encoding, callback) {
+          written.push(chunk.toString());
+          callback();
+        }
+      });
+
+      const result = await client.exportCache('project-1', stream, { includeEmbeddings: false });
+
+      expect(result.entries_exported).toBe(2);
+      expect(written.join('')).toBe(`${JSON.stringify(entry('a'))}\n${JSON.stringify(entry('b'))}\n`);
+    });
+
+    it('should import a snapshot in chunks and resume from a checkpoint', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockImplementation(async (_url, init) => {
+        const { entries } = JSON.parse(String(init?.body));
+        return jsonResponse(200, { imported: entries.length, skipped: 0 });
+      });
+      const snapshot = ['a', 'b', 'c', 'd', 'e'].map(id => JSON.stringify(entry(id))).join('\n');
+      // Split mid-record to exercise line buffering
+      const source = [snapshot.slice(0, 50), snapshot.slice(50)];
+      const progress = jest.fn();
+
+      const result = await client.importCache('project-2', source as unknown as AsyncIterable<string>, {
+        chunkSize: 2,
+        resumeFrom: 1,
+        onConflict: 'overwrite',
+        onProgress: progress
+      });
+
+      expect(result).toEqual({ imported: 4, skipped: 0, checkpoint: 5 });
+      expect(progress.mock.calls.map(([p]) => p.checkpoint)).toEqual([3, 5]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      const firstBody = JSON.parse(String((fetch as jest.Mock).mock.calls[0][1].body));
+      expect((fetch as jest.Mock).mock.calls[0][0]).toBe('https://api.test.com/v1/cache/projects/project-2/import');
+      expect(firstBody.entries.map((e: any) => e.id)).toEqual(['b', 'c']);
+      expect(firstBody).toEqual(expect.objectContaining({ on_conflict: 'overwrite', reembed: false }));
+    });
+
+    it('should reject malformed snapshot lines', async () => {
+      await expect(client.importCache('project-2', ['{"id":"a"}\nnot json\n'] as unknown as AsyncIterable<string>))
+        .rejects.toThrow('Snapshot line 1 is not a cache entry');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject missing entries and empty updates', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(jsonResponse(404, { message: 'Entry not found' }));
+
+      await expect(client.getEntry('missing')).rejects.toThrow(VectorcacheNotFoundError);
+      await expect(client.updateEntry('a', {})).rejects.toThrow(VectorcacheValidationError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send invalidation filters and reject requests without one', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(jsonResponse(200, {
+        entries_cleared: 0,
+        space_freed_mb: 0,
+        operation_time_ms: 3,
+        entries_matched: 1,
+        deleted_ids: [],
+        dry_run: true,
+        entries: [entry('a')]
+      }));
+
+      const preview = await client.invalidate(
+        { metadata: { source_doc: 'pricing-v3' }, model: ['gpt-4'], similar_to: { query: 'pricing', min_similarity: 0.9 } },
+        { dryRun: true, projectId: 'project-1' }
+      );
+
+      expect(preview.entries).toHaveLength(1);
+      expect(fetch).toHaveBeenCalledWith('https://api.test.com/v1/cache/invalidate', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({
+          metadata: { source_doc: 'pricing-v3' },
+          model: ['gpt-4'],
+          similar_to: { query: 'pricing', min_similarity: 0.9 },
+          project_id: 'project-1',
+          dry_run: true
+        })
+      }));
+
+      await expect(client.invalidate({ project_id: 'project-1' })).rejects.toThrow(VectorcacheValidationError);
+      const error = await client.invalidate({ metadata: { source_doc: { $regex: 'v3' } as any } }).catch(e => e);
+      expect(error.details.errors).toEqual([{ field: 'metadata.source_doc', message: 'must be a value or one of $eq, $in, $exists' }]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should search similar entries with a POST body', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(jsonResponse(200, {
+        entries: [{ id: 'a', original_query: 'Query a', similarity: 0.93, created_at: '2024-01-01T00:00:00Z', response_text: 'Answer a' }],
+        total_found: 3,
+        next_cursor: 'page-2'
+      }));
+
+      const page = await client.searchSimilar({
+        projectId: 'project-1',
+        messages: [{ role: 'user', content: 'What does the pro plan cost?' }],
+        minSimilarity: 0.8,
+        limit: 1,
+        metadataFilter: { source_doc: { $exists: true } },
+        includeResponse: true
+      });
+
+      expect(page.entries[0].response_text).toBe('Answer a');
+      expect(page.next_cursor).toBe('page-2');
+      expect(fetch).toHaveBeenCalledWith('https://api.test.com/v1/cache/projects/project-1/similar', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({
+          messages: [{ role: 'user', content: 'What does the pro plan cost?' }],
+          min_similarity: 0.8,
+          limit: 1,
+          metadata_filter: { source_doc: { $exists: true } },
+          include_response: true
+        })
+      }));
+
+      await expect(client.searchSimilar({ projectId: 'project-1', query: 'x', minSimilarity: 2 }))
+        .rejects.toThrow(VectorcacheValidationError);
+      await expect(client.searchSimilar({ projectId: 'project-1' })).rejects.toThrow(VectorcacheValidationError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('warmCache', () => {
+    beforeEach(() => {
+      client = new VectorcacheClient({ apiKey: 'test-api-key', baseUrl: 'https://api.test.com', projectId: 'project-1' });
+      (fetch as jest.MockedFunction<typeof fetch>).mockImplementation(async (url, init) => {
+        const { query } = JSON.parse(String(init?.body));
+        if (String(url).endsWith('/similar')) {
+          const covered = query.includes('covered') ? [{ id: 'e-1', original_query: query, similarity: 0.97 }] : [];
+          return okResponse({ entries: covered, total_found: covered.length });
+        }
+        return okResponse({
+          response: `Answer to ${query}`,
+          is_cache_hit: query === 'cached',
+          response_time_ms: 5,
+          estimated_cost: query === 'cached' ? 0 : 0.5,
+          query_id: query
+        });
+      });
+    });
+
+    it('should skip covered prompts and report progress', async () => {
+      const progress = jest.fn();
+
+      const result = await client.warmCache(
+        [{ query: 'new' }, { query: 'covered prompt' }, { query: 'cached' }, { query: '' }],
+        { skipIfSimilarAbove: 0.9, concurrency: 2, onProgress: progress }
+      );
+
+      expect(result).toEqual({
+        processed: 4,
+        warmed: 1,
+        cached: 1,
+        skipped: 1,
+        errors: 1,
+        estimated_cost: 0.5,
+        budget_exhausted: false
+      });
+      expect(progress).toHaveBeenCalledTimes(4);
+      expect(progress).toHaveBeenCalledWith(expect.objectContaining({
+        request: { query: 'covered prompt' },
+        outcome: 'skipped'
+      }));
+      const queried = (fetch as jest.Mock).mock.calls.filter(([url]) => String(url).endsWith('/v1/cache/query'));
+      expect(queried).toHaveLength(2);
+      expect(fetch).toHaveBeenCalledWith('https://api.test.com/v1/cache/projects/project-1/similar', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ query: 'covered prompt', min_similarity: 0.9, limit: 1 })
+      }));
+    });
+
+    it('should fail prompts whose similarity check is invalid instead of warming them', async () => {
+      const noProject = new VectorcacheClient({ apiKey: 'test-api-key', baseUrl: 'https://api.test.com' });
+      const progress = jest.fn();
+
+      const result = await noProject.warmCache([{ query: 'new' }], { skipIfSimilarAbove: 0.9, onProgress: progress });
+
+      expect(result).toEqual(expect.objectContaining({ processed: 1, warmed: 0, errors: 1 }));
+      expect(progress.mock.calls[0][0].error).toBeInstanceOf(VectorcacheValidationError);
+      expect(progress.mock.calls[0][0].error.message).toBe('Project ID is required');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop starting prompts once the budget is spent', async () => {
+      async function* prompts() {
+        for (let i = 0; i < 10; i++) {
+          yield { query: `prompt ${i}` };
+        }
+      }
+
+      const result = await client.warmCache(prompts(), { budgetUsd: 1, concurrency: 1 });
+
+      expect(result.warmed).toBe(2);
+      expect(result.estimated_cost).toBe(1);
+      expect(result.budget_exhausted).toBe(true);
+    });
+
+    it('should read prompts from a CSV file', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vectorcache-'));
+      const file = path.join(dir, 'prompts.csv');
+      fs.writeFileSync(file, 'query,context,temperature\n"Hello, world",greeting,0.2\n"Multi\nline ""quoted""",,\n');
+
+      await client.warmCache(file);
+
+      const bodies = (fetch as jest.Mock).mock.calls.map(([, init]) => JSON.parse(String(init.body)));
+      expect(bodies).toEqual([
+        { query: 'Hello, world', context: 'greeting', temperature: 0.2, project_id: 'project-1' },
+        { query: 'Multi\nline "quoted"', project_id: 'project-1' }
+      ]);
+      fs.rmSync(dir, { recursive: true });
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    let states: string[];
+    let breakerClient: VectorcacheClient;
+
+    beforeEach(() => {
+      states = [];
+      breakerClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        baseUrl: 'https://api.test.com',
+        circuitBreaker: {
+          minimumRequests: 2,
+          failureThreshold: 0.5,
+          openDurationMs: 20,
+          onStateChange: state => states.push(state)
+        }
+      });
+    });
+
+    it('should open after repeated failures and fail fast', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(breakerClient.query({ query: 'a' })).rejects.toThrow(VectorcacheNetworkError);
+      await expect(breakerClient.query({ query: 'b' })).rejects.toThrow(VectorcacheNetworkError);
+      await expect(breakerClient.query({ query: 'c' })).rejects.toThrow(VectorcacheCircuitOpenError);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(breakerClient.getCircuitState()).toBe('open');
+    });
+
+    it('should ignore errors caused by the request itself', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(errorResponse(401));
+
+      await expect(breakerClient.health()).rejects.toThrow(VectorcacheAuthenticationError);
+      await expect(breakerClient.health()).rejects.toThrow(VectorcacheAuthenticationError);
+
+      expect(breakerClient.getCircuitState()).toBe('closed');
+    });
+
+    it('should probe health after the open period and close again', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockRejectedValueOnce(new Error('down'));
+      (fetch as jest.MockedFunction<typeof fetch>).mockRejectedValueOnce(new Error('down'));
+      await breakerClient.health().catch(() => undefined);
+      await breakerClient.health().catch(() => undefined);
+
+      // First probe fails and re-opens the circuit
+      (fetch as jest.MockedFunction<typeof fetch>).mockRejectedValueOnce(new Error('still down'));
+      await wait(25);
+      await expect(breakerClient.health()).rejects.toThrow(VectorcacheCircuitOpenError);
+
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(okResponse({ status: 'ok', timestamp: 'now' }));
+      await wait(25);
+      await expect(breakerClient.health()).resolves.toEqual({ status: 'ok', timestamp: 'now' });
+
+      expect(states).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+      expect((fetch as jest.Mock).mock.calls[2][0]).toBe('https://api.test.com/health');
+    });
+
+    it('should answer from the fallback LLM while Vectorcache is unavailable', async () => {
+      const fallback = jest.fn().mockResolvedValue({ response: 'Direct answer', tokens_used: 12 });
+      const fallbackClient = new VectorcacheClient({ apiKey: 'test-api-key', fallback, l1Cache: true });
+      (fetch as jest.MockedFunction<typeof fetch>).mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const result = await fallbackClient.query({ query: 'What is AI?' });
+      await fallbackClient.query({ query: 'What is AI?' });
+
+      expect(result).toEqual(expect.objectContaining({
+        response: 'Direct answer',
+        is_cache_hit: false,
+        tokens_used: 12,
+        degraded: true
+      }));
+      // Degraded answers are not kept in the L1 cache
+      expect(fallback).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fall back on request errors', async () => {
+      const fallback = jest.fn();
+      const fallbackClient = new VectorcacheClient({ apiKey: 'test-api-key', fallback });
+
+      await expect(fallbackClient.query({ query: '' })).rejects.toThrow(VectorcacheValidationError);
+      expect(fallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('metrics and tracing', () => {
+    it('should track hits, misses, cost and errors per project and model', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(okResponse({
+          response: 'A', is_cache_hit: true, similarity_score: 0.96, response_time_ms: 8, query_id: '1'
+        }))
+        .mockResolvedValueOnce(okResponse({
+          response: 'B', is_cache_hit: false, response_time_ms: 700, tokens_used: 90, estimated_cost: 0.02, query_id: '2'
+        }))
+        .mockRejectedValueOnce(new Error('offline'));
+
+      await client.query({ query: 'a', model: 'gpt-4' }, { projectId: 'search' });
+      await client.query({ query: 'b', model: 'gpt-4' }, { projectId: 'search' });
+      await client.query({ query: 'c' }).catch(() => undefined);
+
+      const [search, other] = client.metrics().series;
+      expect(search).toEqual(expect.objectContaining({
+        project: 'search',
+        model: 'gpt-4',
+        hits: 1,
+        misses: 1,
+        tokens_used: 90,
+        estimated_cost: 0.02
+      }));
+      expect(search.response_time_ms.sum).toBe(708);
+      expect(search.response_time_ms.buckets.find(bucket => bucket.le === 10)?.count).toBe(1);
+      expect(search.similarity_score.count).toBe(1);
+      expect(search.wall_time_ms.count).toBe(2);
+      expect(other).toEqual(expect.objectContaining({
+        project: 'default',
+        model: 'default',
+        errors: { VectorcacheNetworkError: 1 }
+      }));
+    });
+
+    it('should render metrics in Prometheus text format', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(okResponse({
+        response: 'A', is_cache_hit: true, similarity_score: 0.9, response_time_ms: 3, query_id: '1'
+      }));
+      await client.query({ query: 'a', model: 'gpt-4' }, { projectId: 'p"1' });
+
+      const text = formatPrometheus(client.metrics());
+
+      expect(text).toContain('# TYPE vectorcache_queries_total counter');
+      expect(text).toContain('vectorcache_queries_total{project="p\\"1",model="gpt-4",result="hit"} 1');
+      expect(text).toContain('vectorcache_similarity_score_bucket{project="p\\"1",model="gpt-4",le="0.9"} 1');
+      expect(text).toContain('vectorcache_response_time_milliseconds_bucket{project="p\\"1",model="gpt-4",le="+Inf"} 1');
+      expect(text.endsWith('\n')).toBe(true);
+    });
+
+    it('should not track metrics when disabled', async () => {
+      const quietClient = new VectorcacheClient({ apiKey: 'test-api-key', metrics: false });
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(okResponse({ response: 'A', is_cache_hit: true }));
+
+      await quietClient.query({ query: 'a' });
+
+      expect(quietClient.metrics().series).toEqual([]);
+    });
+
+    it('should create a span per request with cache attributes', async () => {
+      const span = { setAttribute: jest.fn(), recordException: jest.fn(), setStatus: jest.fn(), end: jest.fn() };
+      const tracer = { startSpan: jest.fn().mockReturnValue(span) };
+      const tracedClient = new VectorcacheClient({ apiKey: 'test-api-key', projectId: 'proj', tracer });
+      (fetch as jest.MockedFunction<typeof fetch>)
+        .mockResolvedValueOnce(okResponse({
+          response: 'A', is_cache_hit: true, similarity_score: 0.97, response_time_ms: 4, query_id: 'q1'
+        }))
+        .mockRejectedValueOnce(new Error('offline'));
+
+      await tracedClient.query({ query: 'a', model: 'gpt-4' });
+
+      expect(tracer.startSpan).toHaveBeenCalledWith('Vectorcache POST /v1/cache/query', {
+        attributes: expect.objectContaining({
+          'http.request.method': 'POST',
+          'vectorcache.project_id': 'proj',
+          'vectorcache.model': 'gpt-4'
+        })
+      });
+      expect(span.setAttribute).toHaveBeenCalledWith('vectorcache.cache_hit', true);
+      expect(span.setAttribute).toHaveBeenCalledWith('vectorcache.similarity_score', 0.97);
+      expect(span.setStatus).toHaveBeenCalledWith({ code: 1 });
+      expect(span.end).toHaveBeenCalledTimes(1);
+
+      await tracedClient.health().catch(() => undefined);
+
+      expect(span.recordException).toHaveBeenCalledWith(expect.any(VectorcacheNetworkError));
+      expect(span.setStatus).toHaveBeenLastCalledWith({ code: 2, message: 'Network error: offline' });
+      expect(span.end).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave query strings out of span URLs', async () => {
+      const span = { setAttribute: jest.fn(), recordException: jest.fn(), setStatus: jest.fn(), end: jest.fn() };
+      const tracer = { startSpan: jest.fn().mockReturnValue(span) };
+      const tracedClient = new VectorcacheClient({ apiKey: 'test-api-key', baseUrl: 'https://api.test.com', tracer });
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(okResponse({
+        query: 'secret prompt', similar_entries: [], total_found: 0
+      }));
+
+      await tracedClient.findSimilarQueries('secret prompt', 'proj');
+
+      expect(tracer.startSpan).toHaveBeenCalledWith('Vectorcache GET /v1/cache/projects/proj/similar', {
+        attributes: expect.objectContaining({ 'url.full': 'https://api.test.com/v1/cache/projects/proj/similar' })
+      });
+    });
+
+    it('should track bulk query items per project and model', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(okResponse({
+        results: [
+          { response: 'A', is_cache_hit: true, similarity_score: 0.96, response_time_ms: 8, query_id: '1' },
+          { response: 'B', is_cache_hit: false, response_time_ms: 700, estimated_cost: 0.02, query_id: '2' },
+          { error: { status: 429, message: 'Slow down' } }
+        ]
+      }));
+
+      await client.queryBatch([
+        { query: 'a', model: 'gpt-4' },
+        { query: 'b', model: 'gpt-4' },
+        { query: 'c', model: 'gpt-4' }
+      ], { projectId: 'search' });
+
+      expect(client.metrics().series).toEqual([expect.objectContaining({
+        project: 'search',
+        model: 'gpt-4',
+        hits: 1,
+        misses: 1,
+        estimated_cost: 0.02,
+        errors: { VectorcacheRateLimitError: 1 }
+      })]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid requests with field details before calling the API', async () => {
+      const error = await client.query({ query: 'Test', temperature: 3, max_tokens: 0 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(VectorcacheValidationError);
+      expect(error.details.errors).toEqual([
+        { field: 'max_tokens', message: 'must be between 1 and 4000' },
+        { field: 'temperature', message: 'must be between 0 and 2' }
+      ]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests with both query and messages', async () => {
+      await expect(client.lookup({
+        query: 'Test',
+        messages: [{ role: 'user', content: 'Test' }]
+      })).rejects.toThrow(VectorcacheValidationError);
+      await expect(client.testCache({ project_id: 'p', prompt: ' ' })).rejects.toThrow('prompt must be a non-empty string');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid batch items locally and send the rest', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce(okResponse({
+        results: [{ response: 'A', is_cache_hit: true, response_time_ms: 1, query_id: 'a' }]
+      }));
+
+      const batch = await client.queryBatch([{ query: '' }, { query: 'a' }]);
+
+      expect(fetch).toHaveBeenCalledWith('https://api.test.com/v1/cache/query/batch', expect.objectContaining({
+        body: JSON.stringify({ requests: [{ query: 'a' }] })
+      }));
+      expect(batch.results.map(result => result.status)).toEqual(['rejected', 'fulfilled']);
+      expect((batch.results[0] as any).error).toBeInstanceOf(VectorcacheValidationError);
+    });
+
+    it('should pass unexpected response shapes through unless strict mode is on', async () => {
+      const strictClient = new VectorcacheClient({ apiKey: 'test-api-key', strictResponses: true });
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(okResponse({ status: 'ok', timestamp: 42 }));
+
+      await expect(client.health()).resolves.toEqual({ status: 'ok', timestamp: 42 });
+
+      const error = await strictClient.health().catch(e => e);
+      expect(error).toBeInstanceOf(VectorcacheSchemaError);
+      expect(error.details).toEqual(expect.objectContaining({
+        endpoint: '/health',
+        issues: [{ field: 'timestamp', message: 'must be of type string' }]
+      }));
+    });
+  });
+
+  describe('record/replay', () => {
+    let dir: string;
+    let cassette: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vectorcache-'));
+      cassette = path.join(dir, 'cassette.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should record exchanges with secrets redacted and replay them offline', async () => {
+      const server = new FakeVectorcacheServer();
+      const recorder = new VectorcacheClient({
+        apiKey: 'secret-key',
+        fetch: server.fetch,
+        recordReplay: { mode: 'record', cassette, redactFields: ['metadata.user_id'] }
+      });
+
+      await recorder.query({ query: 'What is AI?', metadata: { user_id: 'u-42' } });
+      await recorder.query({ query: 'What is AI?', metadata: { user_id: 'u-42' } });
+
+      const contents = fs.readFileSync(cassette, 'utf8');
+      expect(contents).not.toContain('secret-key');
+      expect(contents).not.toContain('u-42');
+      expect(JSON.parse(contents).exchanges).toHaveLength(2);
+
+      const player = new VectorcacheClient({
+        apiKey: 'other-key',
+        recordReplay: { mode: 'replay', cassette, redactFields: ['metadata.user_id'] }
+      });
+
+      const miss = await player.query({ query: 'What is AI?', metadata: { user_id: 'u-7' } });
+      const hit = await player.query({ query: 'What is AI?', metadata: { user_id: 'u-7' } });
+
+      expect(miss.is_cache_hit).toBe(false);
+      expect(hit.is_cache_hit).toBe(true);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should replay recorded errors with their headers', async () => {
+      const server = new FakeVectorcacheServer();
+      server.failNext({ type: 'rate-limit', retryAfter: 5 });
+      const recorder = new VectorcacheClient({ apiKey: 'key', fetch: server.fetch, recordReplay: { mode: 'record', cassette } });
+      await expect(recorder.health()).rejects.toThrow(VectorcacheRateLimitError);
+
+      const player = new VectorcacheClient({ apiKey: 'key', recordReplay: { mode: 'replay', cassette } });
+      const error = await player.health().catch(e => e);
+
+      expect(error).toBeInstanceOf(VectorcacheRateLimitError);
+      expect(error.retryAfter).toBe(5);
+    });
+
+    it('should fail loudly when no recording matches', async () => {
+      const server = new FakeVectorcacheServer();
+      const recorder = new VectorcacheClient({ apiKey: 'key', fetch: server.fetch, recordReplay: { mode: 'record', cassette } });
+      await recorder.query({ query: 'What is AI?' });
+
+      const player = new VectorcacheClient({
+        apiKey: 'key',
+        retry: { initialDelayMs: 0 },
+        recordReplay: { mode: 'replay', cassette }
+      });
+      const error = await player.query({ query: 'What is ML?' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(VectorcacheReplayError);
+      expect(error.message).toContain('POST /v1/cache/query');
+
+      const missing = new VectorcacheClient({
+        apiKey: 'key',
+        recordReplay: { mode: 'replay', cassette: path.join(dir, 'missing.json') }
+      });
+      await expect(missing.health()).rejects.toThrow(/does not exist/);
+    });
+
+    it('should match on the configured request parts only', async () => {
+      const server = new FakeVectorcacheServer();
+      const recorder = new VectorcacheClient({ apiKey: 'key', fetch: server.fetch, recordReplay: { mode: 'record', cassette } });
+      await recorder.query({ query: 'What is AI?' });
+
+      const player = new VectorcacheClient({
+        apiKey: 'key',
+        recordReplay: { mode: 'replay', cassette, match: ['method', 'endpoint'] }
+      });
+
+      expect((await player.query({ query: 'Anything else' })).response).toBe('Fake response to: What is AI?');
+    });
+
+    it('should leave requests untouched in passthrough mode', async () => {
+      (fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(okResponse({ status: 'healthy', timestamp: 'now' }));
+      const passthrough = new VectorcacheClient({ apiKey: 'key', recordReplay: { mode: 'passthrough', cassette } });
+
+      await passthrough.health();
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(fs.existsSync(cassette)).toBe(false);
+    });
+  });
+
+  describe('project views', () => {
+    let server: FakeVectorcacheServer;
+    let shared: VectorcacheClient;
+
+    beforeEach(() => {
+      server = new FakeVectorcacheServer();
+      shared = new VectorcacheClient({ apiKey: 'test-api-key', projectId: 'default-project', fetch: server.fetch, l1Cache: true });
+    });
+
+    it('should scope queries, tests, stats and clears to the view without changing the client', async () => {
+      const tenant = shared.forProject('tenant-a');
+
+      await tenant.query({ query: 'What is AI?' });
+      await tenant.testCache({ prompt: 'What is AI?' });
+      await tenant.clearCache({});
+      await tenant.getCacheStats();
+
+      expect(server.assertRequested('POST', '/v1/cache/query').body.project_id).toBe('tenant-a');
+      expect(server.assertRequested('POST', '/v1/cache/test').body.project_id).toBe('tenant-a');
+      expect(server.assertRequested('POST', '/v1/cache/clear').body.project_id).toBe('tenant-a');
+      server.assertRequested('GET', '/v1/cache/projects/tenant-a/stats');
+
+      expect(tenant.getConfig().projectId).toBe('tenant-a');
+      expect(shared.getConfig().projectId).toBe('default-project');
+    });
+
+    it('should keep concurrent views isolated, including their L1 cache entries', async () => {
+      const a = shared.forProject('tenant-a');
+      const b = shared.forProject('tenant-b');
+
+      await Promise.all([a.query({ query: 'same question' }), b.query({ query: 'same question' })]);
+      const again = await b.query({ query: 'same question' });
+
+      const projects = server.findRequests('POST', '/v1/cache/query').map(request => request.body.project_id);
+      expect(projects.sort()).toEqual(['tenant-a', 'tenant-b']);
+      expect(again.is_local_hit).toBe(true);
+      expect(shared.metrics().series.map(series => series.project).sort()).toEqual(['tenant-a', 'tenant-b']);
+    });
+
+    it('should share what a view learns or changes with the client and its other views', async () => {
+      const root = new VectorcacheClient({ apiKey: 'test-api-key', projectId: 'default-project', fetch: server.fetch });
+      const view = root.withOptions({ timeout: 5000 });
+      server.failNext({ type: 'status', status: 404 }, { path: '/v1/cache/query/batch' });
+
+      await view.queryBatch([{ query: 'a' }]);
+      await root.queryBatch([{ query: 'b' }]);
+      expect(server.findRequests('POST', '/v1/cache/query/batch')).toHaveLength(1);
+
+      view.setDefaultProjectId('moved-project');
+      expect(root.getConfig().projectId).toBe('moved-project');
+      expect(root.forProject('tenant-a').withOptions({}).getConfig().projectId).toBe('tenant-a');
+      await root.withOptions({ timeout: 1000 }).query({ query: 'c' });
+      expect(server.assertRequested('POST', '/v1/cache/query').body.project_id).toBe('moved-project');
+    });
+
+    it('should apply scoped options under the options of each call', async () => {
+      const view = shared.withOptions({ projectId: 'tenant-a', timeout: 20 });
+      server.failNext({ type: 'timeout' });
+
+      await expect(view.health()).rejects.toThrow(VectorcacheTimeoutError);
+
+      await view.query({ query: 'What is AI?' }, { projectId: 'tenant-b' });
+      expect(server.assertRequested('POST', '/v1/cache/query').body.project_id).toBe('tenant-b');
+    });
+
+    it('should pick the project per request with the resolver', async () => {
+      const routed = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        projectId: 'default-project',
+        fetch: server.fetch,
+        resolveProject: request => request.metadata?.tenant
+      });
+
+      await routed.query({ query: 'a', metadata: { tenant: 'tenant-a' } });
+      await routed.query({ query: 'b' });
+      await routed.forProject('pinned').query({ query: 'c', metadata: { tenant: 'tenant-a' } });
+      await routed.queryBatch([{ query: 'd', metadata: { tenant: 'tenant-b' } }, { query: 'e' }]);
+
+      expect(server.findRequests('POST', '/v1/cache/query').map(request => request.body.project_id))
+        .toEqual(['tenant-a', 'default-project', 'pinned']);
+      expect(server.assertRequested('POST', '/v1/cache/query/batch').body.requests.map((r: any) => r.project_id))
+        .toEqual(['tenant-b', 'default-project']);
+    });
+  });
+
+  describe('cache policy', () => {
+    let server: FakeVectorcacheServer;
+    let policyClient: VectorcacheClient;
+
+    beforeEach(() => {
+      server = new FakeVectorcacheServer();
+      policyClient = new VectorcacheClient({
+        apiKey: 'test-api-key',
+        projectId: 'test-project',
+        fetch: server.fetch,
+        l1Cache: true,
+        cachePolicy: {
+          rules: [
+            { name: 'creative', temperature: { min: 1 }, mode: 'bypass' },
+            { name: 'admin', metadata: { tool: 'admin' }, mode: 'read-only' },
+            { model: ['gpt-4o', 'claude'], mode: 'read-write', similarityThreshold: 0.95, ttlSeconds: 600 },
+            { when: request => (request.query || '').includes('@'), mode: 'write-only' }
+          ],
+          ttlSeconds: 3600
+        }
+      });
+    });
+
+    it('should apply the first matching rule and report it on the response', async () => {
+      const creative = await policyClient.query({ query: 'Write a poem', temperature: 1.2 });
+      const admin = await policyClient.query({ query: 'List users', metadata: { tool: 'admin' } });
+      const model = await policyClient.query({ query: 'What is AI?', model: 'claude' });
+      const custom = await policyClient.query({ query: 'Email me@example.com' });
+      const fallthrough = await policyClient.query({ query: 'What is ML?', temperature: 0.2 });
+
+      expect(creative.cache_policy).toEqual({ mode: 'bypass', rule: 'creative', ttl_seconds: 3600 });
+      expect(admin.cache_policy).toEqual({ mode: 'read-only', rule: 'admin', ttl_seconds: 3600 });
+      expect(model.cache_policy).toEqual({ mode: 'read-write', rule: 'rules[2]', similarity_threshold: 0.95, ttl_seconds: 600 });
+      expect(custom.cache_policy).toEqual(expect.objectContaining({ mode: 'write-only', rule: 'rules[3]' }));
+      expect(fallthrough.cache_policy).toEqual({ mode: 'read-write', ttl_seconds: 3600 });
+
+      const bodies = server.findRequests('POST', '/v1/cache/query').map(request => request.body);
+      expect(bodies[0]).toEqual(expect.objectContaining({ cache_mode: 'bypass', ttl_seconds: 3600 }));
+      expect(bodies[2]).toEqual(expect.objectContaining({ similarity_threshold: 0.95, ttl_seconds: 600 }));
+      expect(bodies[2].cache_mode).toBeUndefined();
+    });
+
+    it('should not read or write the cache for bypassed queries', async () => {
+      await policyClient.query({ query: 'Write a poem', temperature: 1.5 });
+      const again = await policyClient.query({ query: 'Write a poem', temperature: 1.5 });
+
+      expect(again.is_cache_hit).toBe(false);
+      expect(server.findRequests('POST', '/v1/cache/query')).toHaveLength(2);
+      expect((await policyClient.getCacheStats()).total_entries).toBe(0);
+    });
+
+    it('should serve read-only queries from the cache without storing misses', async () => {
+      await policyClient.query({ query: 'List users' });
+      const miss = await policyClient.query({ query: 'List groups', metadata: { tool: 'admin' } });
+      const hit = await policyClient.query({ query: 'List users', metadata: { tool: 'admin' } });
+
+      expect(miss.is_cache_hit).toBe(false);
+      expect(hit.is_local_hit).toBe(true);
+      expect((await policyClient.getCacheStats()).total_entries).toBe(1);
+    });
+
+    it('should let a call replace the client policy with a policy or a mode', async () => {
+      await policyClient.query({ query: 'What is AI?' });
+      const refreshed = await policyClient.query({ query: 'What is AI?' }, { cachePolicy: 'write-only' });
+      const pinned = await policyClient.query(
+        { query: 'Write a poem', temperature: 1.5 },
+        { cachePolicy: { rules: [{ name: 'all', when: () => true, mode: 'read-write' }] } }
+      );
+
+      expect(refreshed.is_cache_hit).toBe(false);
+      expect(refreshed.cache_policy).toEqual({ mode: 'write-only' });
+      expect(pinned.cache_policy).toEqual({ mode: 'read-write', rule: 'all' });
+    });
+
+    it('should report the policy on streamed and batched responses', async () => {
+      let done: SemanticQueryResponse | undefined;
+      for await (const event of policyClient.queryStream({ query: 'Write a poem', temperature: 1.5 })) {
+        if (event.type === 'done') {
+          done = event.response;
+        }
+      }
+
+      const noL1 = new VectorcacheClient({ apiKey: 'test-api-key', fetch: server.fetch, cachePolicy: { defaultMode: 'read-only' } });
+      const batch = await noL1.queryBatch([{ query: 'a' }, { query: 'b' }]);
+
+      expect(done?.cache_policy?.rule).toBe('creative');
+      expect(server.assertRequested('POST', '/v1/cache/query/batch').body.requests.map((r: any) => r.cache_mode))
+        .toEqual(['read-only', 'read-only']);
+      expect(batch.results.map(result => result.status === 'fulfilled' && result.response.cache_policy?.mode)).toEqual(['read-only', 'read-only']);
+    });
+  });
+
+  describe('PII redaction', () => {
+    let server: FakeVectorcacheServer;
+
+    const piiClient = (piiRedaction: PiiRedactionOptions | boolean, config: Partial<VectorcacheConfig> = {}) =>
+      new VectorcacheClient({ apiKey: 'test-api-key', projectId: 'test-project', fetch: server.fetch, piiRedaction, ...config });
+
+    beforeEach(() => {
+      server = new FakeVectorcacheServer();
+    });
+
+    it('should mask PII in the query, context and messages and report what was found', async () => {
+      const onRedaction = jest.fn();
+      const client = piiClient({ onRedaction });
+
+      await client.query({ query: 'Email jane.doe@example.com or call 555-123-4567', context: 'Card 4111 1111 1111 1111' });
+      await client.query({ messages: [{ role: 'user', content: 'Hi, my name is Jane Doe. Order 1234 5678 9012 3456' }] });
+
+      const [first, second] = server.findRequests('POST', '/v1/cache/query').map(request => request.body);
+      expect(first.query).toBe('Email [EMAIL] or call [PHONE]');
+      expect(first.context).toBe('Card [CREDIT_CARD]');
+      expect(second.messages[0].content).toBe('Hi, my name is [NAME]. Order 1234 5678 9012 3456');
+      expect(onRedaction).toHaveBeenCalledWith({
+        action: 'mask',
+        findings: [
+          { field: 'query', type: 'email', count: 1 },
+          { field: 'query', type: 'phone', count: 1 },
+          { field: 'context', type: 'credit-card', count: 1 }
+        ]
+      });
+      expect(JSON.stringify(onRedaction.mock.calls)).not.toContain('jane.doe');
+    });
+
+    it('should restore tokenized placeholders in responses and streams', async () => {
+      const client = piiClient({ tokenize: true });
+
+      const result = await client.query({ query: 'Write to bob@example.com and amy@example.com, cc bob@example.com' });
+      expect(server.assertRequested('POST', '/v1/cache/query').body.query)
+        .toBe('Write to [EMAIL_1] and [EMAIL_2], cc [EMAIL_1]');
+      expect(result.response).toBe('Fake response to: Write to bob@example.com and amy@example.com, cc bob@example.com');
+
+      const deltas: string[] = [];
+      let done: SemanticQueryResponse | undefined;
+      for await (const event of client.queryStream({ query: 'Reply to bob@example.com' })) {
+        if (event.type === 'delta') {
+          deltas.push(event.delta);
+        } else {
+          done = event.response;
+        }
+      }
+      expect(deltas.join('')).toBe('Fake response to: Reply to bob@example.com');
+      expect(done?.response).toBe('Fake response to: Reply to bob@example.com');
+
+      const restorer = createStreamRestorer(text => text.split('[EMAIL_1]').join('bob@example.com'));
+      expect(restorer.push('Hi [EMA')).toBe('Hi ');
+      expect(restorer.push('IL_1], bye [')).toBe('bob@example.com, bye ');
+      expect(restorer.flush()).toBe('[');
+    });
+
+    it('should hash PII with a salt, so the same value always gets the same placeholder', async () => {
+      const client = piiClient({ mode: 'hash', hashSalt: 'pepper' });
+
+      await client.query({ query: 'Contact jane@example.com' });
+      await client.query({ query: 'Who is jane@example.com?' });
+
+      const [first, second] = server.findRequests('POST', '/v1/cache/query').map(request => request.body.query);
+      const hash = first.match(/\[EMAIL:([0-9a-f]{12})\]/)[1];
+      expect(second).toBe(`Who is [EMAIL:${hash}]?`);
+      expect(first).not.toContain('jane');
+      expect(() => piiClient({ mode: 'hash' })).toThrow('requires a hashSalt');
+    });
+
+    it('should reject requests with PII without sending them', async () => {
+      const client = piiClient({ mode: 'reject', detectors: ['email', { type: 'employee-id', pattern: /EMP-\d{4}/ }] });
+
+      const error = await client.query({ query: 'EMP-1234 wrote to a@b.io', context: 'EMP-9999' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(VectorcacheValidationError);
+      expect(error.details.errors).toEqual([
+        { field: 'query', message: 'contains employee-id' },
+        { field: 'query', message: 'contains email' },
+        { field: 'context', message: 'contains employee-id' }
+      ]);
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should send prompts with PII past the cache in bypass-cache mode', async () => {
+      const client = piiClient({ mode: 'bypass-cache' }, { l1Cache: true });
+
+      await client.query({ query: 'Call me at 555-123-4567' });
+      const again = await client.query({ query: 'Call me at 555-123-4567' });
+      await client.query({ query: 'What is AI?' });
+
+      const bodies = server.findRequests('POST', '/v1/cache/query').map(request => request.body);
+      expect(bodies[0]).toEqual(expect.objectContaining({ query: 'Call me at 555-123-4567', cache_mode: 'bypass' }));
+      expect(again.cache_policy).toEqual({ mode: 'bypass' });
+      expect(bodies[2].cache_mode).toBeUndefined();
+      expect((await client.getCacheStats()).total_entries).toBe(1);
+    });
+
+    it('should redact cache tests and logged bodies', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const detect = (text: string) => {
+        const start = text.indexOf('T-1');
+        return start === -1 ? [] : [{ start, end: start + 3 }];
+      };
+      const client = piiClient({ mode: 'bypass-cache', detectors: [{ type: 'ticket', detect }] }, { logger });
+
+      await client.query({ query: 'Status of T-1?' });
+      await client.testCache({ prompt: 'Status of T-1?' });
+
+      expect(server.assertRequested('POST', '/v1/cache/test').body.prompt).toBe('Status of [TICKET]?');
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('T-1');
+    });
+    it('should redact lookups, stores, similarity searches and filters', async () => {
+      const client = piiClient({ tokenize: true });
+
+      await client.store({ query: 'Email bob@example.com', response: 'Sent to bob@example.com' });
+      const hit = await client.lookup({ query: 'Email amy@example.com' });
+      await client.findSimilarQueries('Mail amy@example.com');
+      await client.searchSimilar({ messages: [{ role: 'user', content: 'Mail amy@example.com' }] });
+      await client.warmCache([{ query: 'Ping amy@example.com' }], { skipIfSimilarAbove: 0.99 });
+      const page = await client.listEntries(undefined, { filter: { query: 'email bob@example.com' } });
+      await client.invalidate({ similar_to: { query: 'Email bob@example.com', min_similarity: 0.9 } }, { dryRun: true });
+
+      expect(server.assertRequested('POST', '/v1/cache/store').body).toEqual(expect.objectContaining({
+        query: 'Email [EMAIL_1]',
+        response: 'Sent to [EMAIL_1]'
+      }));
+      expect(server.assertRequested('POST', '/v1/cache/lookup').body.query).toBe('Email [EMAIL_1]');
+      expect(hit.response).toBe('Sent to amy@example.com');
+      expect(server.assertRequested('GET', /\/similar$/).query.query).toBe('Mail [EMAIL_1]');
+      expect(server.findRequests('POST', /\/similar$/).map(request => request.body)).toEqual([
+        expect.objectContaining({ messages: [{ role: 'user', content: 'Mail [EMAIL_1]' }] }),
+        expect.objectContaining({ query: 'Ping [EMAIL_1]' })
+      ]);
+      expect(page.entries.map(entry => entry.query_text)).toEqual(['Email [EMAIL_1]']);
+      expect(server.assertRequested('POST', '/v1/cache/invalidate').body.similar_to.query).toBe('Email [EMAIL_1]');
+      expect(JSON.stringify(server.requests)).not.toContain('@example.com');
+    });
+
+    it('should skip lookups and stores with PII in bypass-cache mode', async () => {
+      const client = piiClient({ mode: 'bypass-cache' });
+
+      const result = await client.lookup({ query: 'Call me at 555-123-4567' });
+      const stored = await client.store({ query: 'Call me at 555-123-4567', response: 'Calling 555-123-4567' });
+
+      expect(result.is_cache_hit).toBe(false);
+      expect(stored).toEqual({ cache_entry_id: '', skipped: true });
+      expect(server.findRequests('POST', '/v1/cache/lookup')).toHaveLength(0);
+      expect(server.findRequests('POST', '/v1/cache/store')).toHaveLength(0);
+    });
+  });
+
+  describe('encryption', () => {
+    const key1 = { id: 'k1', key: Buffer.alloc(32, 1).toString('base64') };
+    const key2 = { id: 'k2', key: new Uint8Array(32).fill(2) };
+    let server: FakeVectorcacheServer;
+    let llm: jest.Mock;
+
+    const encryptedClient = (encryption: Partial<EncryptionOptions> = {}) => new VectorcacheClient({
+      apiKey: 'test-api-key',
+      projectId: 'test-project',
+      fetch: server.fetch,
+      encryption: { keys: [key1], llm, ...encryption }
+    });
+
+    beforeEach(() => {
+      server = new FakeVectorcacheServer();
+      llm = jest.fn().mockResolvedValue({ response: 'The secret answer', tokens_used: 12 });
+    });
+
+    it('should store only ciphertext and decrypt it on hits', async () => {
+      const client = encryptedClient();
+
+      const miss = await client.query({ query: 'What is the launch date?', metadata: { team: 'rockets' } });
+      const hit = await client.query({ query: 'What is the launch date?' });
+
+      expect(miss).toEqual(expect.objectContaining({ is_cache_hit: false, response: 'The secret answer', tokens_used: 12 }));
+      expect(hit).toEqual(expect.objectContaining({ is_cache_hit: true, response: 'The secret answer' }));
+      expect(llm).toHaveBeenCalledTimes(1);
+
+      const stored = server.assertRequested('POST', '/v1/cache/store').body;
+      expect(stored.query).toBe('What is the launch date?');
+      expect(stored.response).toMatch(/^vcenc:v1:k1:/);
+      expect(Object.keys(stored.metadata)).toEqual(['_vcenc']);
+      expect(JSON.stringify(server.requests)).not.toMatch(/secret answer|rockets/);
+      expect(server.findRequests('POST', '/v1/cache/query')).toHaveLength(0);
+    });
+
+    it('should decrypt responses and metadata in the entry APIs', async () => {
+      const client = encryptedClient();
+      const { cache_entry_id: id } = await client.store({ query: 'capital of France', response: 'Paris', metadata: { topic: 'geo' } });
+
+      expect((await client.getEntry(id)).response_text).toBe('Paris');
+      expect((await client.listEntries()).entries[0].metadata).toEqual({ topic: 'geo' });
+      expect((await client.lookup({ query: 'capital of France' })).response).toBe('Paris');
+
+      const similar = await client.searchSimilar({ query: 'capital of France', includeResponse: true });
+      expect(similar.entries[0]).toEqual(expect.objectContaining({ response_text: 'Paris', metadata: { topic: 'geo' } }));
+
+      const updated = await client.updateEntry(id, { response_text: 'Paris, France' });
+      expect(updated.response_text).toBe('Paris, France');
+      expect(server.assertRequested('PATCH', `/v1/cache/entries/${id}`).body.response_text).toMatch(/^vcenc:v1:k1:/);
+    });
+
+    it('should rotate keys while older entries stay readable', async () => {
+      await encryptedClient().store({ query: 'old question', response: 'old answer' });
+
+      const rotated = encryptedClient({ keys: [key1, key2], activeKeyId: 'k2' });
+      expect((await rotated.query({ query: 'old question' })).response).toBe('old answer');
+
+      await rotated.store({ query: 'new question', response: 'new answer' });
+      expect(server.findRequests('POST', '/v1/cache/store')[1].body.response).toMatch(/^vcenc:v1:k2:/);
+
+      const retired = encryptedClient({ keys: [key2] });
+      expect((await retired.lookup({ query: 'new question' })).response).toBe('new answer');
+
+      const error = await retired.query({ query: 'old question' }).catch(e => e);
+      expect(error).toBeInstanceOf(VectorcacheDecryptionError);
+      expect(error.keyId).toBe('k1');
+    });
+
+    it('should reject tampered ciphertext and invalid key setups', async () => {
+      const client = encryptedClient();
+      const { cache_entry_id: id } = await client.store({ query: 'question', response: 'answer' });
+      const ciphertext = (await encryptedClient({ keys: [key2] }).getEntry(id).catch(e => e)) as VectorcacheDecryptionError;
+      expect(ciphertext.code).toBe('DECRYPTION_FAILED');
+
+      const forged = new VectorcacheClient({ apiKey: 'test-api-key', projectId: 'test-project', fetch: server.fetch });
+      const raw = (await forged.getEntry(id)).response_text;
+      await forged.updateEntry(id, { response_text: `${raw.slice(0, -6)}AAAAAA` });
+      await expect(client.getEntry(id)).rejects.toThrow(VectorcacheDecryptionError);
+
+      expect(() => encryptedClient({ keys: [{ id: 'short', key: 'c2hvcnQ=' }] })).toThrow('must be 32 bytes');
+      expect(() => encryptedClient({ activeKeyId: 'missing' })).toThrow('Unknown active encryption key');
+      expect(() => new VectorcacheClient({
+        local: { embed: async () => [1], llm },
+        encryption: { keys: [key1], llm }
+      })).toThrow('not supported in local mode');
+      await expect(client.testCache({ prompt: 'question' })).rejects.toThrow('not supported with client-side encryption');
+    });
+
+    it('should reject plaintext and ciphertexts moved between entries', async () => {
+      const plain = new VectorcacheClient({ apiKey: 'test-api-key', projectId: 'test-project', fetch: server.fetch });
+      const client = encryptedClient();
+      const { cache_entry_id: legacyId } = await plain.store({ query: 'legacy question', response: 'legacy answer' });
+
+      await expect(client.lookup({ query: 'legacy question' })).rejects.toThrow('returned plaintext');
+      await expect(client.getEntry(legacyId)).rejects.toThrow(VectorcacheDecryptionError);
+      const lenient = encryptedClient({ allowPlaintext: true });
+      expect((await lenient.getEntry(legacyId)).response_text).toBe('legacy answer');
+
+      const { cache_entry_id: first } = await client.store({ query: 'first question', response: 'first answer' });
+      const { cache_entry_id: second } = await client.store({ query: 'second question', response: 'second answer' });
+      await plain.updateEntry(second, { response_text: (await plain.getEntry(first)).response_text });
+
+      const error = await client.getEntry(second).catch(e => e);
+      expect(error).toBeInstanceOf(VectorcacheDecryptionError);
+      expect(error.message).toContain('belongs to another cache entry');
+      expect((await client.getEntry(first)).response_text).toBe('first answer');
+    });
+
+    it('should check that a hit belongs to the entry it was matched to', async () => {
+      const plain = new VectorcacheClient({ apiKey: 'test-api-key', projectId: 'test-project', fetch: server.fetch });
+      const client = encryptedClient();
+      await client.store({ query: 'What is the launch date?', response: 'June' });
+      await client.store({ query: 'What is the secret code?', response: '1234' });
+      const [launch, secret] = (await plain.listEntries()).entries
+        .sort((a, b) => a.query_text.localeCompare(b.query_text));
+
+      expect((await client.query({ query: 'what is the launch date' })).response).toBe('June');
+      await plain.updateEntry(launch.id, { response_text: secret.response_text });
+
+      const exact = await client.query({ query: 'What is the launch date?' }).catch(e => e);
+      const similar = await client.lookup({ query: 'what is the launch date' }).catch(e => e);
+      expect(exact).toBeInstanceOf(VectorcacheDecryptionError);
+      expect(similar).toBeInstanceOf(VectorcacheDecryptionError);
+      expect(similar.message).toContain('belongs to another cache entry');
+    });
+
+    it('should reject metadata filters, which cannot match encrypted metadata', async () => {
+      const client = encryptedClient();
+
+      await expect(client.invalidate({ metadata: { topic: 'geo' } })).rejects.toThrow(VectorcacheValidationError);
+      await expect(client.listEntries(undefined, { filter: { metadata: { topic: 'geo' } } }))
+        .rejects.toThrow('not supported with client-side encryption');
+      await expect(client.searchSimilar({ query: 'capital', metadataFilter: { topic: 'geo' } }))
+        .rejects.toThrow('not supported with client-side encryption');
+      expect(server.requests).toHaveLength(0);
+      expect(server.findRequests('POST', '/v1/cache/test')).toHaveLength(0);
+    });
+  });
+
   describe('setDefaultProjectId', () => {
     it('should update default project ID', () => {
       client.setDefaultProjectId('new-project-id');
@@ -0,0 +1,24 @@
+/**
+ * Shared helpers for tests that mock fetch
+ */
+
+/**
+ * A fetch response with a JSON body
+ */
+export const jsonResponse = (status: number, body: any, headers: Record<string, string> = {}) => ({
+  ok: status < 400,
+  status,
+  statusText: status < 400 ? 'OK' : 'Error',
+  headers: { get: (name: string) => headers[name] ?? null },
+  text: () => Promise.resolve(JSON.stringify(body))
+} as unknown as Response);
+
+/**
+ * A successful fetch response with a JSON body
+ */
+export const okResponse = (body: any) => jsonResponse(200, body);
+
+/**
+ * A failed fetch response with an empty JSON body
+ */
+export const errorResponse = (status: number, headers: Record<string, string> = {}) => jsonResponse(status, {}, headers);
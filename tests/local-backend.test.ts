@@ -0,0 +1,261 @@
+/**
+ * Tests for the offline local backend
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { VectorcacheClient } from '../src/client';
+import { cosineSimilarity } from '../src/local-backend';
+import { VectorcacheNotFoundError } from '../src/errors';
+
+// Toy embedding: letter frequencies, so similar strings get similar vectors
+const embed = async (text: string): Promise<number[]> => {
+  const vector = new Array(26).fill(0);
+  for (const char of text.toLowerCase()) {
+    const index = char.charCodeAt(0) - 97;
+    if (index >= 0 && index < 26) {
+      vector[index]++;
+    }
+  }
+  return vector;
+};
+
+describe('local mode', () => {
+  let llm: jest.Mock;
+  let client: VectorcacheClient;
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+    llm = jest.fn().mockResolvedValue({ response: 'Paris', tokens_used: 10, estimated_cost: 0.001 });
+    client = new VectorcacheClient({ local: { embed, llm, similarityThreshold: 0.95 } });
+  });
+
+  it('should compute cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+  });
+
+  it('should call the LLM on a miss and serve similar queries from the index', async () => {
+    const miss = await client.query({ query: 'What is the capital of France?' });
+    const hit = await client.query({ query: 'what is the capital of france' });
+
+    expect(miss.is_cache_hit).toBe(false);
+    expect(miss.tokens_used).toBe(10);
+    expect(hit.is_cache_hit).toBe(true);
+    expect(hit.response).toBe('Paris');
+    expect(hit.similarity_score).toBeGreaterThanOrEqual(0.95);
+    expect(llm).toHaveBeenCalledTimes(1);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should report stats, similar queries and clear entries', async () => {
+    await client.query({ query: 'What is the capital of France?' });
+    await client.query({ query: 'What is the capital of France?' });
+
+    const stats = await client.getCacheStats();
+    expect(stats).toEqual(expect.objectContaining({
+      project_id: 'local',
+      total_entries: 1,
+      total_hits: 1,
+      total_tokens_saved: 10
+    }));
+
+    const similar = await client.findSimilarQueries('capital of France');
+    expect(similar.similar_entries[0].original_query).toBe('What is the capital of France?');
+
+    const cleared = await client.clearCache({});
+    expect(cleared.entries_cleared).toBe(1);
+    expect((await client.getCacheStats()).total_entries).toBe(0);
+  });
+
+  it('should list, update and delete individual entries', async () => {
+    await client.store({ query: 'capital of France', response: 'Lyon', metadata: { topic: 'geo' } });
+    await client.store({ query: 'capital of Spain', response: 'Madrid', metadata: { topic: 'geo' } });
+    await client.store({ query: 'speed of light', response: '299792 km/s', metadata: { topic: 'physics' } });
+
+    const firstPage = await client.listEntries(undefined, { limit: 1, filter: { metadata: { topic: 'geo' } } });
+    expect(firstPage.entries).toHaveLength(1);
+    expect(firstPage.next_cursor).toBeDefined();
+
+    const geo = [];
+    for await (const entry of client.iterateEntries(undefined, { limit: 1, filter: { metadata: { topic: 'geo' } } })) {
+      geo.push(entry);
+    }
+    expect(geo.map(entry => entry.query_text).sort()).toEqual(['capital of France', 'capital of Spain']);
+
+    const france = geo.find(entry => entry.query_text === 'capital of France')!;
+    const updated = await client.updateEntry(france.id, { response_text: 'Paris' });
+    expect(updated.response_text).toBe('Paris');
+    expect((await client.query({ query: 'capital of France' })).response).toBe('Paris');
+
+    await client.deleteEntry(france.id);
+    await expect(client.getEntry(france.id)).rejects.toThrow(VectorcacheNotFoundError);
+    expect((await client.listEntries()).entries).toHaveLength(2);
+  });
+
+  it('should invalidate entries by metadata, model and similarity, with dry runs', async () => {
+    await client.store({ query: 'price of the pro plan', response: '$20', model: 'gpt-4', metadata: { source_doc: 'pricing-v3' } });
+    await client.store({ query: 'price of the team plan', response: '$50', model: 'gpt-3.5', metadata: { source_doc: 'pricing-v2' } });
+    await client.store({ query: 'capital of France', response: 'Paris', model: 'gpt-4' });
+
+    const preview = await client.invalidate({ metadata: { source_doc: { $in: ['pricing-v2', 'pricing-v3'] } } }, { dryRun: true });
+    expect(preview).toEqual(expect.objectContaining({ dry_run: true, entries_matched: 2, entries_cleared: 0, deleted_ids: [] }));
+    expect(preview.entries!.map(entry => entry.response_text).sort()).toEqual(['$20', '$50']);
+    expect((await client.listEntries()).entries).toHaveLength(3);
+
+    const byModel = await client.invalidate({ model: 'gpt-3.5', metadata: { source_doc: { $exists: true } } });
+    expect(byModel.entries_cleared).toBe(1);
+    expect(byModel.entries).toBeUndefined();
+
+    const bySimilarity = await client.invalidate({ similar_to: { query: 'capital of France?', min_similarity: 0.95 } });
+    expect(bySimilarity.deleted_ids).toHaveLength(1);
+
+    const remaining = (await client.listEntries()).entries;
+    expect(remaining.map(entry => entry.metadata)).toEqual([{ source_doc: 'pricing-v3' }]);
+    expect(remaining[0].model).toBe('gpt-4');
+  });
+
+  it('should search similar entries with filters and pages', async () => {
+    await client.store({ query: 'capital of France', response: 'Paris', metadata: { topic: 'geo' } });
+    await client.store({ query: 'capital of Spain', response: 'Madrid', metadata: { topic: 'geo' } });
+    await client.store({ query: 'capitals of France', response: 'Paris!', metadata: { topic: 'quiz' } });
+
+    const first = await client.searchSimilar({
+      messages: [{ role: 'user', content: 'capital of France' }],
+      metadataFilter: { topic: 'geo' },
+      limit: 1,
+      includeResponse: true
+    });
+    expect(first.total_found).toBe(2);
+    expect(first.entries[0]).toEqual(expect.objectContaining({ response_text: 'Paris', metadata: { topic: 'geo' } }));
+
+    const second = await client.searchSimilar({
+      messages: [{ role: 'user', content: 'capital of France' }],
+      metadataFilter: { topic: 'geo' },
+      limit: 1,
+      cursor: first.next_cursor
+    });
+    expect(second.entries[0].original_query).toBe('capital of Spain');
+    expect(second.entries[0].response_text).toBeUndefined();
+    expect(second.next_cursor).toBeUndefined();
+
+    const close = await client.searchSimilar({ query: 'capital of France', minSimilarity: 0.99 });
+    expect(close.entries.map(entry => entry.original_query)).toEqual(['capital of France']);
+  });
+
+  it('should honour cache modes, thresholds and TTLs from the cache policy', async () => {
+    await client.query({ query: 'capital of France' }, { cachePolicy: 'bypass' });
+    expect((await client.listEntries()).entries).toHaveLength(0);
+
+    await client.query({ query: 'capital of France' }, { cachePolicy: { defaultMode: 'write-only', ttlSeconds: 60 } });
+    const [entry] = (await client.listEntries()).entries;
+    expect(Date.parse(entry.expires_at) - Date.parse(entry.created_at)).toBe(60000);
+
+    const readOnly = await client.query({ query: 'capitals of France' }, { cachePolicy: 'read-only' });
+    expect(readOnly.is_cache_hit).toBe(true);
+
+    const strict = await client.query(
+      { query: 'capitals of France' },
+      { cachePolicy: { defaultMode: 'read-only', similarityThreshold: 1 } }
+    );
+    expect(strict.is_cache_hit).toBe(false);
+    expect((await client.listEntries()).entries).toHaveLength(1);
+    expect(llm).toHaveBeenCalledTimes(3);
+  });
+
+  it('should persist the index to a file', async () => {
+    const persistPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vectorcache-')), 'index.json');
+    const first = new VectorcacheClient({ local: { embed, llm, persistPath } });
+    await first.query({ query: 'What is the capital of France?' });
+
+    const second = new VectorcacheClient({ local: { embed, llm, persistPath } });
+    const result = await second.query({ query: 'What is the capital of France?' });
+
+    expect(result.is_cache_hit).toBe(true);
+    expect(llm).toHaveBeenCalledTimes(1);
+    fs.rmSync(path.dirname(persistPath), { recursive: true });
+  });
+
+  it('should batch hit statistics into one write until flushed', async () => {
+    const persistPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vectorcache-')), 'index.json');
+    const persisted = new VectorcacheClient({ local: { embed, llm, persistPath, persistDebounceMs: 60000 } });
+    await persisted.query({ query: 'What is the capital of France?' });
+    const writeFile = jest.spyOn(fs.promises, 'writeFile');
+
+    for (let i = 0; i < 5; i++) {
+      await persisted.query({ query: 'What is the capital of France?' });
+    }
+    expect(writeFile).not.toHaveBeenCalled();
+
+    await persisted.flush();
+    expect(writeFile).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fs.readFileSync(persistPath, 'utf8')).entries[0].entry.hit_count).toBe(5);
+
+    writeFile.mockRestore();
+    fs.rmSync(path.dirname(persistPath), { recursive: true });
+  });
+
+  it('should not let one project read, change or delete the entries of another', async () => {
+    const { cache_entry_id: id } = await client.store({ query: 'secret', response: 'mine' }, { projectId: 'project-a' });
+    const other = client.forProject('project-b');
+
+    await expect(other.getEntry(id)).rejects.toThrow(VectorcacheNotFoundError);
+    await expect(other.updateEntry(id, { response_text: 'yours' })).rejects.toThrow(VectorcacheNotFoundError);
+    await expect(other.deleteEntry(id)).rejects.toThrow(VectorcacheNotFoundError);
+    expect((await client.getEntry(id, { projectId: 'project-a' })).response_text).toBe('mine');
+  });
+
+  it('should reject exports the destination cannot take', async () => {
+    await client.query({ query: 'What is the capital of France?' });
+
+    const missingDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vectorcache-')), 'missing', 'snapshot.jsonl');
+    await expect(client.exportCache(undefined, missingDir)).rejects.toThrow('ENOENT');
+
+    const broken = new Writable({
+      highWaterMark: 1,
+      write: (_chunk, _encoding, callback) => callback(new Error('disk full'))
+    });
+    await expect(client.exportCache(undefined, broken)).rejects.toThrow('disk full');
+  });
+
+  it('should export a snapshot to a file and import it into another cache', async () => {
+    const snapshotPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vectorcache-')), 'snapshot.jsonl');
+    await client.query({ query: 'What is the capital of France?' });
+    await client.query({ query: 'What is the capital of Spain?' });
+
+    const exported = await client.exportCache(undefined, snapshotPath, { includeEmbeddings: false });
+    const lines = fs.readFileSync(snapshotPath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(exported.entries_exported).toBe(2);
+    expect(lines[0].embedding).toBeUndefined();
+
+    const target = new VectorcacheClient({ local: { embed, llm, similarityThreshold: 0.95 } });
+    const progress = jest.fn();
+    const imported = await target.importCache('local', snapshotPath, { chunkSize: 1, onProgress: progress });
+    const again = await target.importCache('local', snapshotPath);
+
+    expect(imported).toEqual({ imported: 2, skipped: 0, checkpoint: 2 });
+    expect(progress).toHaveBeenCalledTimes(2);
+    expect(again).toEqual({ imported: 0, skipped: 2, checkpoint: 2 });
+    expect((await target.query({ query: 'What is the capital of France?' })).is_cache_hit).toBe(true);
+    expect(llm).toHaveBeenCalledTimes(2);
+    fs.rmSync(path.dirname(snapshotPath), { recursive: true });
+  });
+
+  it('should copy one project into another without touching the source', async () => {
+    const snapshotPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vectorcache-')), 'snapshot.jsonl');
+    const { cache_entry_id: id } = await client.store({ query: 'capital of France', response: 'Paris' }, { projectId: 'project-a' });
+    await client.exportCache('project-a', snapshotPath);
+
+    expect(await client.importCache('project-b', snapshotPath)).toEqual({ imported: 1, skipped: 0, checkpoint: 1 });
+    expect(await client.importCache('project-b', snapshotPath, { onConflict: 'overwrite' })).toEqual({ imported: 1, skipped: 0, checkpoint: 1 });
+    expect(await client.importCache('project-b', snapshotPath)).toEqual({ imported: 0, skipped: 1, checkpoint: 1 });
+
+    const copies = await client.listEntries('project-b');
+    expect(copies.entries).toHaveLength(1);
+    expect(copies.entries[0].id).not.toBe(id);
+    expect((await client.getEntry(id, { projectId: 'project-a' })).response_text).toBe('Paris');
+    fs.rmSync(path.dirname(snapshotPath), { recursive: true });
+  });
+});
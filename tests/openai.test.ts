@@ -0,0 +1,165 @@
+/**
+ * Tests for the OpenAI wrapper
+ */
+
+import { VectorcacheClient } from '../src/client';
+import { wrapOpenAI } from '../src/openai';
+import { FakeVectorcacheServer } from '../src/testing';
+
+describe('wrapOpenAI', () => {
+  let vectorcache: VectorcacheClient;
+  let create: jest.Mock;
+  let openai: { chat: { completions: { create: jest.Mock } }; models: { list: jest.Mock } };
+
+  const params = {
+    model: 'gpt-4o',
+    messages: [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Capital of France?' }
+    ],
+    temperature: 0
+  };
+
+  const completion = {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 1700000000,
+    model: 'gpt-4o',
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Paris' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 1, total_tokens: 11 }
+  };
+
+  beforeEach(() => {
+    vectorcache = new VectorcacheClient({ apiKey: 'test-api-key' });
+    create = jest.fn().mockResolvedValue(completion);
+    openai = { chat: { completions: { create } }, models: { list: jest.fn() } };
+  });
+
+  it('should return cached answers without calling OpenAI', async () => {
+    const lookup = jest.spyOn(vectorcache, 'lookup').mockResolvedValue({
+      is_cache_hit: true,
+      response: 'Paris',
+      similarity_score: 0.97,
+      response_time_ms: 20,
+      query_id: 'q-1'
+    });
+
+    const result = await wrapOpenAI(openai, vectorcache).chat.completions.create(params);
+
+    expect(create).not.toHaveBeenCalled();
+    expect(lookup).toHaveBeenCalledWith({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Capital of France?' }
+      ],
+      model: 'gpt-4o',
+      temperature: 0
+    }, { projectId: undefined });
+    expect(result.choices[0].message.content).toBe('Paris');
+    expect(result.vectorcache).toEqual(expect.objectContaining({ is_cache_hit: true, similarity_score: 0.97 }));
+  });
+
+  it('should call OpenAI on a miss and store the answer', async () => {
+    jest.spyOn(vectorcache, 'lookup').mockResolvedValue({ is_cache_hit: false, response_time_ms: 20, query_id: 'q-1' });
+    const store = jest.spyOn(vectorcache, 'store').mockResolvedValue({ cache_entry_id: 'e-1' });
+
+    const result = await wrapOpenAI(openai, vectorcache).chat.completions.create(params);
+
+    expect(create).toHaveBeenCalledWith(params, undefined);
+    expect(result.vectorcache).toEqual({ is_cache_hit: false });
+    expect(store).toHaveBeenCalledWith(
+      expect.objectContaining({ response: 'Paris', tokens_used: 11, model: 'gpt-4o' }),
+      { projectId: undefined }
+    );
+  });
+
+  it('should stream cache hits as chunks', async () => {
+    jest.spyOn(vectorcache, 'lookup').mockResolvedValue({
+      is_cache_hit: true,
+      response: 'Paris',
+      response_time_ms: 20,
+      query_id: 'q-1'
+    });
+
+    const stream = await wrapOpenAI(openai, vectorcache).chat.completions.create({ ...params, stream: true });
+    let text = '';
+    for await (const chunk of stream) {
+      text += chunk.choices[0].delta.content || '';
+    }
+
+    expect(text).toBe('Paris');
+  });
+
+  it('should mark the finishing chunk of streamed misses', async () => {
+    jest.spyOn(vectorcache, 'lookup').mockResolvedValue({ is_cache_hit: false, response_time_ms: 20, query_id: 'q-1' });
+    const store = jest.spyOn(vectorcache, 'store').mockResolvedValue({ cache_entry_id: 'e-1' });
+    const base = { id: 'chatcmpl-1', object: 'chat.completion.chunk', created: 1700000000, model: 'gpt-4o' };
+    create.mockResolvedValue((async function* () {
+      yield { ...base, choices: [{ index: 0, delta: { role: 'assistant', content: 'Par' }, finish_reason: null }] };
+      yield { ...base, choices: [{ index: 0, delta: { content: 'is' }, finish_reason: 'stop' }] };
+      yield { ...base, choices: [], usage: { prompt_tokens: 10, completion_tokens: 1, total_tokens: 11 } };
+    })());
+
+    const stream = await wrapOpenAI(openai, vectorcache).chat.completions.create({ ...params, stream: true });
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map(chunk => chunk.vectorcache)).toEqual([undefined, { is_cache_hit: false }, undefined]);
+    expect(store).toHaveBeenCalledWith(expect.objectContaining({ response: 'Paris', tokens_used: 11 }), { projectId: undefined });
+  });
+
+  it('should pass uncacheable calls and other properties through', async () => {
+    const lookup = jest.spyOn(vectorcache, 'lookup');
+    const wrapped = wrapOpenAI(openai, vectorcache);
+
+    await wrapped.chat.completions.create({ ...params, tools: [{ type: 'function' }] });
+    await wrapped.chat.completions.create({ ...params, response_format: { type: 'json_object' } });
+    await wrapped.chat.completions.create({ ...params, seed: 7, stop: ['\n'] });
+    await wrapped.chat.completions.create({ ...params, logprobs: true });
+    await wrapped.chat.completions.create({ ...params, max_completion_tokens: 16000 });
+    await wrapped.chat.completions.create({ ...params, reasoning_effort: 'high' });
+
+    expect(lookup).not.toHaveBeenCalled();
+    expect(create).toHaveBeenCalledTimes(6);
+
+    jest.spyOn(vectorcache, 'store').mockResolvedValue({ cache_entry_id: 'e-1' });
+    lookup.mockResolvedValue({ is_cache_hit: false, response_time_ms: 20, query_id: 'q-1' });
+    await wrapped.chat.completions.create({ ...params, response_format: { type: 'text' }, logprobs: false, user: 'u-1' });
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(wrapped.models.list).toBe(openai.models.list);
+  });
+
+  it('should honour cache policy rules', async () => {
+    const server = new FakeVectorcacheServer();
+    const policyClient = new VectorcacheClient({
+      apiKey: 'test-api-key',
+      projectId: 'test-project',
+      fetch: server.fetch,
+      cachePolicy: { rules: [{ name: 'creative', temperature: { min: 1 }, mode: 'bypass' }] }
+    });
+    const wrapped = wrapOpenAI(openai, policyClient);
+
+    await wrapped.chat.completions.create({ ...params, temperature: 1 });
+    await wrapped.chat.completions.create({ ...params, temperature: 1 });
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(server.requests).toHaveLength(0);
+
+    await wrapped.chat.completions.create(params);
+    const cached = await wrapped.chat.completions.create(params);
+    expect(create).toHaveBeenCalledTimes(3);
+    expect(cached.vectorcache).toEqual(expect.objectContaining({ is_cache_hit: true }));
+  });
+
+  it('should fall back to OpenAI when the cache is unavailable', async () => {
+    const onCacheError = jest.fn();
+    jest.spyOn(vectorcache, 'lookup').mockRejectedValue(new Error('down'));
+    jest.spyOn(vectorcache, 'store').mockResolvedValue({ cache_entry_id: 'e-1' });
+
+    const result = await wrapOpenAI(openai, vectorcache, { onCacheError }).chat.completions.create(params);
+
+    expect(result.choices[0].message.content).toBe('Paris');
+    expect(onCacheError).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
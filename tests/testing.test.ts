@@ -0,0 +1,149 @@
+/**
+ * Tests for the fake Vectorcache server test kit
+ */
+
+import { VectorcacheClient } from '../src/client';
+import {
+  VectorcacheAuthenticationError,
+  VectorcacheNetworkError,
+  VectorcacheRateLimitError,
+  VectorcacheSchemaError,
+  VectorcacheServerError,
+  VectorcacheTimeoutError
+} from '../src/errors';
+import { FakeVectorcacheServer } from '../src/testing';
+
+describe('FakeVectorcacheServer', () => {
+  let server: FakeVectorcacheServer;
+  let client: VectorcacheClient;
+
+  beforeEach(() => {
+    server = new FakeVectorcacheServer({ apiKey: 'test-key' });
+    client = new VectorcacheClient({
+      apiKey: 'test-key',
+      projectId: 'test-project',
+      fetch: server.fetch,
+      retry: { initialDelayMs: 0, jitter: false }
+    });
+  });
+
+  it('should miss, then serve the same query from the cache', async () => {
+    const miss = await client.query({ query: 'What is AI?' });
+    const hit = await client.query({ query: 'what is AI' });
+
+    expect(miss.is_cache_hit).toBe(false);
+    expect(miss.response).toBe('Fake response to: What is AI?');
+    expect(hit.is_cache_hit).toBe(true);
+    expect(hit.similarity_score).toBeCloseTo(1);
+    expect(server.findRequests('POST', '/v1/cache/query')).toHaveLength(2);
+  });
+
+  it('should serve seeded entries and honour forced results', async () => {
+    const [id] = await server.seed([{ query: 'capital of France', response: 'Paris' }]);
+
+    const hit = await client.query({ query: 'capital of France' });
+    expect(hit).toEqual(expect.objectContaining({ is_cache_hit: true, response: 'Paris', cache_entry_id: id }));
+
+    server.forceNext('miss');
+    expect((await client.query({ query: 'capital of France' })).is_cache_hit).toBe(false);
+
+    server.forceNext('hit');
+    const forced = await client.query({ query: 'unrelated question' });
+    expect(forced.is_cache_hit).toBe(true);
+  });
+
+  it('should implement stats, similar, test, clear and health', async () => {
+    await server.seed([{ query: 'capital of France', response: 'Paris' }]);
+
+    const test = await client.testCache({ project_id: 'test-project', prompt: 'capital of France' });
+    expect(test.cache_hit).toBe(true);
+    expect(test.workflow_steps).toHaveLength(4);
+
+    const similar = await client.findSimilarQueries('capital of France');
+    expect(similar.similar_entries[0].original_query).toBe('capital of France');
+
+    expect((await client.getCacheStats()).total_entries).toBe(1);
+    expect((await client.clearCache({ project_id: 'test-project' })).entries_cleared).toBe(1);
+    expect((await client.health()).status).toBe('healthy');
+  });
+
+  it('should stream deltas for streaming queries', async () => {
+    await server.seed([{ query: 'greeting', response: 'Hello there world' }]);
+
+    const deltas: string[] = [];
+    for await (const event of client.queryStream({ query: 'greeting' })) {
+      if (event.type === 'delta') {
+        deltas.push(event.delta);
+      }
+    }
+
+    expect(deltas).toEqual(['Hello ', 'there ', 'world']);
+  });
+
+  it('should reject requests with the wrong API key', async () => {
+    const stranger = new VectorcacheClient({ apiKey: 'wrong', fetch: server.fetch, retry: false });
+
+    await expect(stranger.health()).rejects.toThrow(VectorcacheAuthenticationError);
+    expect(server.assertRequested('GET', '/health').headers['x-api-key']).toBe('wrong');
+  });
+
+  it('should inject rate limits and server errors that the client retries', async () => {
+    server.failNext({ type: 'rate-limit', retryAfter: 0 }, { path: '/v1/cache/query' });
+    server.failNext({ type: 'server-error', status: 503 }, { path: '/v1/cache/query' });
+
+    const result = await client.query({ query: 'What is AI?' });
+
+    expect(result.is_cache_hit).toBe(false);
+    expect(server.findRequests('POST', '/v1/cache/query')).toHaveLength(3);
+  });
+
+  it('should surface injected failures once retries run out', async () => {
+    const noRetry = new VectorcacheClient({ apiKey: 'test-key', fetch: server.fetch, retry: false, strictResponses: true });
+
+    server.failNext({ type: 'rate-limit', retryAfter: 7 });
+    const rateLimited = await noRetry.health().catch(error => error);
+    expect(rateLimited).toBeInstanceOf(VectorcacheRateLimitError);
+    expect(rateLimited.retryAfter).toBe(7);
+
+    server.failNext({ type: 'server-error', status: 500 });
+    await expect(noRetry.health()).rejects.toThrow(VectorcacheServerError);
+
+    server.failNext({ type: 'malformed-json' });
+    await expect(noRetry.health()).rejects.toThrow(VectorcacheSchemaError);
+
+    server.failNext({ type: 'network' });
+    await expect(noRetry.health()).rejects.toThrow(VectorcacheNetworkError);
+
+    server.failNext({ type: 'timeout' });
+    await expect(noRetry.health({ timeout: 20 })).rejects.toThrow(VectorcacheTimeoutError);
+  });
+
+  it('should list the received requests when an assertion fails', async () => {
+    await client.health();
+
+    expect(() => server.assertRequested('POST', '/v1/cache/query')).toThrow(/GET \/health/);
+
+    server.reset();
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('should serve the same API over HTTP', async () => {
+    const baseUrl = await server.listen();
+
+    try {
+      const httpClient = new VectorcacheClient({ apiKey: 'test-key', baseUrl, retry: false });
+      await httpClient.query({ query: 'What is AI?' });
+      const hit = await httpClient.query({ query: 'What is AI?' });
+
+      expect(hit.is_cache_hit).toBe(true);
+      expect(server.assertRequested('POST', '/v1/cache/query').body).toEqual(
+        expect.objectContaining({ query: 'What is AI?' })
+      );
+
+      server.failNext({ type: 'rate-limit', retryAfter: 3 });
+      await expect(httpClient.health()).rejects.toThrow(VectorcacheRateLimitError);
+    } finally {
+      await server.close();
+    }
+  });
+});